@@ -0,0 +1,50 @@
+import express from 'express';
+import { GameRecordInput } from '../src/stats/types';
+import { HistoryStore } from './history';
+
+const MAX_RECENT_GAMES = 100;
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function isText(value: unknown, maxLength = 64): value is string {
+  return typeof value === 'string' && value.length <= maxLength;
+}
+
+function parseGameRecord(body: unknown): GameRecordInput | null {
+  if (!body || typeof body !== 'object') return null;
+  const { profileId, profileName, mode, seed, winner, won, playerCount, turns, eightsPlayed, durationMs } = body as Record<string, unknown>;
+  if (!isText(profileId) || profileId.length === 0 || !isText(profileName) || !isText(seed) || !isText(winner)) return null;
+  if (mode !== 'local' && mode !== 'online') return null;
+  if (typeof won !== 'boolean') return null;
+  if (!isCount(playerCount) || !isCount(turns) || !isCount(eightsPlayed) || !isCount(durationMs)) return null;
+  return { profileId, profileName, mode, seed, winner, won, playerCount, turns, eightsPlayed, durationMs };
+}
+
+// REST routes for match history: POST /api/games, GET /api/profiles/:id/stats and /games.
+export function createApiRouter(history: HistoryStore) {
+  const router = express.Router();
+  router.use(express.json({ limit: '16kb' }));
+
+  router.post('/games', (req, res) => {
+    const record = parseGameRecord(req.body);
+    if (!record) {
+      res.status(400).json({ error: 'Invalid game record' });
+      return;
+    }
+    res.status(201).json({ id: history.recordGame(record) });
+  });
+
+  router.get('/profiles/:id/stats', (req, res) => {
+    res.json(history.getStats(req.params.id));
+  });
+
+  router.get('/profiles/:id/games', (req, res) => {
+    // SQLite reads a negative LIMIT as no limit at all, so keep it within 1..MAX_RECENT_GAMES
+    const limit = Math.max(1, Math.min(Math.trunc(Number(req.query.limit)) || 20, MAX_RECENT_GAMES));
+    res.json(history.listGames(req.params.id, limit));
+  });
+
+  return router;
+}
@@ -0,0 +1,43 @@
+import Database from 'better-sqlite3';
+import { mkdirSync } from 'fs';
+import { dirname } from 'path';
+
+// Each entry upgrades the schema by one version. Never edit a shipped migration: append a new one.
+// The version that has been applied is kept in SQLite's `user_version` pragma.
+const MIGRATIONS: string[] = [
+  `
+  CREATE TABLE games (
+    id INTEGER PRIMARY KEY AUTOINCREMENT,
+    profile_id TEXT NOT NULL,
+    profile_name TEXT NOT NULL,
+    mode TEXT NOT NULL,
+    seed TEXT NOT NULL,
+    winner TEXT NOT NULL,
+    won INTEGER NOT NULL,
+    player_count INTEGER NOT NULL,
+    turns INTEGER NOT NULL,
+    eights_played INTEGER NOT NULL,
+    duration_ms INTEGER NOT NULL,
+    finished_at TEXT NOT NULL DEFAULT (strftime('%Y-%m-%dT%H:%M:%fZ', 'now'))
+  );
+  CREATE INDEX games_by_profile ON games (profile_id, id);
+  `,
+];
+
+export function migrate(db: Database.Database) {
+  const current = db.pragma('user_version', { simple: true }) as number;
+  MIGRATIONS.slice(current).forEach((sql, i) => {
+    db.transaction(() => {
+      db.exec(sql);
+      db.pragma(`user_version = ${current + i + 1}`);
+    })();
+  });
+}
+
+export function openDatabase(path: string = process.env.DATABASE_PATH || 'data/crazy8.db'): Database.Database {
+  if (path !== ':memory:') mkdirSync(dirname(path), { recursive: true });
+  const db = new Database(path);
+  db.pragma('journal_mode = WAL');
+  migrate(db);
+  return db;
+}
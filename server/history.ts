@@ -0,0 +1,83 @@
+import Database from 'better-sqlite3';
+import { GameRecord, GameRecordInput, ProfileStats } from '../src/stats/types';
+
+interface GameRow {
+  id: number;
+  profile_id: string;
+  profile_name: string;
+  mode: string;
+  seed: string;
+  winner: string;
+  won: number;
+  player_count: number;
+  turns: number;
+  eights_played: number;
+  duration_ms: number;
+  finished_at: string;
+}
+
+function toRecord(row: GameRow): GameRecord {
+  return {
+    id: row.id,
+    profileId: row.profile_id,
+    profileName: row.profile_name,
+    mode: row.mode === 'online' ? 'online' : 'local',
+    seed: row.seed,
+    winner: row.winner,
+    won: row.won === 1,
+    playerCount: row.player_count,
+    turns: row.turns,
+    eightsPlayed: row.eights_played,
+    durationMs: row.duration_ms,
+    finishedAt: row.finished_at,
+  };
+}
+
+// Finished games per profile and the statistics derived from them.
+export function createHistoryStore(db: Database.Database) {
+  const insert = db.prepare(`
+    INSERT INTO games (profile_id, profile_name, mode, seed, winner, won, player_count, turns, eights_played, duration_ms)
+    VALUES (@profileId, @profileName, @mode, @seed, @winner, @won, @playerCount, @turns, @eightsPlayed, @durationMs)
+  `);
+  const selectRecent = db.prepare('SELECT * FROM games WHERE profile_id = ? ORDER BY id DESC LIMIT ?');
+  const selectResults = db.prepare('SELECT won, turns, duration_ms FROM games WHERE profile_id = ? ORDER BY id');
+
+  function recordGame(input: GameRecordInput): number {
+    const result = insert.run({ ...input, won: input.won ? 1 : 0 });
+    return Number(result.lastInsertRowid);
+  }
+
+  function listGames(profileId: string, limit: number): GameRecord[] {
+    return (selectRecent.all(profileId, limit) as GameRow[]).map(toRecord);
+  }
+
+  function getStats(profileId: string): ProfileStats {
+    const rows = selectResults.all(profileId) as Pick<GameRow, 'won' | 'turns' | 'duration_ms'>[];
+    let wins = 0;
+    let streak = 0;
+    let bestStreak = 0;
+    let totalTurns = 0;
+    let totalDuration = 0;
+    for (const row of rows) {
+      wins += row.won;
+      streak = row.won ? streak + 1 : 0;
+      bestStreak = Math.max(bestStreak, streak);
+      totalTurns += row.turns;
+      totalDuration += row.duration_ms;
+    }
+    const games = rows.length;
+    return {
+      games,
+      wins,
+      winRate: games > 0 ? wins / games : 0,
+      currentStreak: streak,
+      bestStreak,
+      averageTurns: games > 0 ? totalTurns / games : 0,
+      averageDurationMs: games > 0 ? totalDuration / games : 0,
+    };
+  }
+
+  return { recordGame, listGames, getStats };
+}
+
+export type HistoryStore = ReturnType<typeof createHistoryStore>;
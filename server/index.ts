@@ -0,0 +1,70 @@
+import 'dotenv/config';
+import express from 'express';
+import { createServer } from 'http';
+import { WebSocketServer } from 'ws';
+import { isClientMessage } from '../src/online/protocol';
+import { createMessage } from '../src/i18n';
+import { createRoomRegistry } from './rooms';
+import { openDatabase } from './db';
+import { createHistoryStore } from './history';
+import { createApiRouter } from './api';
+
+const PORT = Number(process.env.PORT) || 3001;
+
+const app = express();
+const registry = createRoomRegistry();
+const history = createHistoryStore(openDatabase());
+
+// The Vite dev server runs on another port, so the API has to allow cross-origin calls.
+// The placeholder APP_URL from .env.example is not a real origin and allows any.
+const appUrl = process.env.APP_URL;
+const allowedOrigin = !appUrl || appUrl === 'MY_APP_URL' ? '*' : appUrl;
+
+app.use('/api', (req, res, next) => {
+  res.header('Access-Control-Allow-Origin', allowedOrigin);
+  res.header('Access-Control-Allow-Headers', 'Content-Type');
+  res.header('Access-Control-Allow-Methods', 'GET, POST, OPTIONS');
+  if (req.method === 'OPTIONS') {
+    res.sendStatus(204);
+    return;
+  }
+  next();
+});
+
+app.get('/api/health', (_req, res) => {
+  res.json({ ok: true, rooms: registry.roomCount() });
+});
+
+app.use('/api', createApiRouter(history));
+
+const server = createServer(app);
+const wss = new WebSocketServer({ server, path: '/ws' });
+
+wss.on('connection', socket => {
+  const rejectMessage = () => socket.send(JSON.stringify({ type: 'error', message: createMessage('online.badMessage') }));
+  socket.on('message', data => {
+    let message: unknown;
+    try {
+      message = JSON.parse(data.toString());
+    } catch {
+      rejectMessage();
+      return;
+    }
+    if (!isClientMessage(message)) {
+      rejectMessage();
+      return;
+    }
+    // One bad message must not take the server, and every room on it, down
+    try {
+      registry.handleMessage(socket, message);
+    } catch (error) {
+      console.error('Failed to handle message', error);
+      rejectMessage();
+    }
+  });
+  socket.on('close', () => registry.handleClose(socket));
+});
+
+server.listen(PORT, () => {
+  console.log(`Crazy Eights server listening on http://localhost:${PORT} (WebSocket at /ws)`);
+});
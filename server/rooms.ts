@@ -0,0 +1,197 @@
+import { randomBytes, randomUUID } from 'crypto';
+import { WebSocket } from 'ws';
+import { GameState } from '../src/types';
+import { applyAction, createGame, isLegalAction } from '../src/engine/rules';
+import { createPlayerView } from '../src/online/view';
+import { createMessage, t } from '../src/i18n';
+import { ClientMessage, DISCONNECT_TIMEOUT_MS, ONLINE_SEATS, ServerMessage } from '../src/online/protocol';
+
+interface RoomPlayer {
+  name: string;
+  // Secret handed to the client so it can take its seat back after a reconnect
+  token: string;
+  socket: WebSocket | null;
+  disconnectTimer: NodeJS.Timeout | null;
+}
+
+interface Room {
+  code: string;
+  players: RoomPlayer[];
+  // Authoritative game; null until the second player arrives
+  game: GameState | null;
+}
+
+const CODE_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+const CODE_LENGTH = 4;
+const MAX_NAME_LENGTH = 16;
+
+function send(socket: WebSocket | null, message: ServerMessage) {
+  if (socket && socket.readyState === WebSocket.OPEN) {
+    socket.send(JSON.stringify(message));
+  }
+}
+
+// Clients send a default name in their own language; the fallback only covers ones that do not
+function cleanName(name: unknown, seat: number): string {
+  const trimmed = typeof name === 'string' ? name.trim().slice(0, MAX_NAME_LENGTH) : '';
+  return trimmed || t('seat.player', { number: seat + 1 });
+}
+
+// Hosts two-player rooms and keeps the only trusted copy of every GameState. Clients send
+// actions; the registry validates them with the rules engine and pushes per-seat views back.
+export function createRoomRegistry() {
+  const rooms = new Map<string, Room>();
+  const membership = new Map<WebSocket, { room: Room; seat: number }>();
+
+  function newRoomCode(): string {
+    let code = '';
+    do {
+      code = Array.from(randomBytes(CODE_LENGTH), byte => CODE_ALPHABET[byte % CODE_ALPHABET.length]).join('');
+    } while (rooms.has(code));
+    return code;
+  }
+
+  function broadcast(room: Room) {
+    if (!room.game) return;
+    const connected = room.players.map(p => p.socket !== null);
+    room.players.forEach((player, seat) => {
+      send(player.socket, { type: 'state', view: createPlayerView(room.game!, seat, connected) });
+    });
+  }
+
+  function startGame(room: Room) {
+    room.game = createGame({ seats: room.players.map(p => ({ name: p.name, kind: 'human' })) });
+    broadcast(room);
+  }
+
+  function seatPlayer(socket: WebSocket, room: Room, seat: number) {
+    const player = room.players[seat];
+    player.socket = socket;
+    if (player.disconnectTimer) {
+      clearTimeout(player.disconnectTimer);
+      player.disconnectTimer = null;
+    }
+    membership.set(socket, { room, seat });
+    send(socket, { type: 'joined', code: room.code, seat, token: player.token });
+  }
+
+  function addPlayer(socket: WebSocket, room: Room, name: string): number {
+    room.players.push({ name, token: randomUUID(), socket: null, disconnectTimer: null });
+    const seat = room.players.length - 1;
+    seatPlayer(socket, room, seat);
+    return seat;
+  }
+
+  function closeRoom(room: Room) {
+    room.players.forEach(player => {
+      if (player.disconnectTimer) clearTimeout(player.disconnectTimer);
+      if (player.socket) membership.delete(player.socket);
+    });
+    rooms.delete(room.code);
+  }
+
+  // The player in `seat` is gone for good: the opponent wins a running game and the room closes.
+  function forfeit(room: Room, seat: number) {
+    const game = room.game;
+    const opponent = (seat + 1) % room.players.length;
+    if (game && game.status !== 'game_over' && room.players.length === ONLINE_SEATS) {
+      room.game = {
+        ...game,
+        status: 'game_over',
+        winner: opponent,
+        lastAction: createMessage('action.opponentLeft', { player: room.players[seat].name, winner: room.players[opponent].name }),
+      };
+    }
+    room.players[seat].socket = null;
+    broadcast(room);
+    closeRoom(room);
+  }
+
+  function leaveCurrentRoom(socket: WebSocket) {
+    const seated = membership.get(socket);
+    if (!seated) return;
+    membership.delete(socket);
+    forfeit(seated.room, seated.seat);
+  }
+
+  function handleMessage(socket: WebSocket, message: ClientMessage) {
+    switch (message.type) {
+      case 'create_room': {
+        leaveCurrentRoom(socket);
+        const room: Room = { code: newRoomCode(), players: [], game: null };
+        rooms.set(room.code, room);
+        addPlayer(socket, room, cleanName(message.name, 0));
+        send(socket, { type: 'waiting', code: room.code });
+        return;
+      }
+      case 'join_room': {
+        const room = rooms.get(String(message.code).trim().toUpperCase());
+        if (!room) return send(socket, { type: 'error', message: createMessage('online.noRoom') });
+        if (room.players.length >= ONLINE_SEATS) return send(socket, { type: 'error', message: createMessage('online.roomFull') });
+        if (membership.get(socket)?.room === room) return send(socket, { type: 'error', message: createMessage('online.alreadyJoined') });
+        leaveCurrentRoom(socket);
+        addPlayer(socket, room, cleanName(message.name, room.players.length));
+        startGame(room);
+        return;
+      }
+      case 'resume': {
+        const room = rooms.get(String(message.code).toUpperCase());
+        const seat = room ? room.players.findIndex(p => p.token === message.token) : -1;
+        if (!room || seat === -1) return send(socket, { type: 'error', message: createMessage('online.cannotResume') });
+        const previous = room.players[seat].socket;
+        if (previous && previous !== socket) {
+          membership.delete(previous);
+          previous.close();
+        }
+        seatPlayer(socket, room, seat);
+        if (room.game) broadcast(room);
+        else send(socket, { type: 'waiting', code: room.code });
+        return;
+      }
+      case 'action': {
+        const seated = membership.get(socket);
+        const game = seated?.room.game;
+        if (!seated || !game) return send(socket, { type: 'error', message: createMessage('online.notStarted') });
+        if (game.turn !== seated.seat) return send(socket, { type: 'error', message: createMessage('online.notYourTurn') });
+        if (!isLegalAction(game, message.action)) return send(socket, { type: 'error', message: createMessage('online.illegalMove') });
+        seated.room.game = applyAction(game, message.action);
+        broadcast(seated.room);
+        return;
+      }
+      case 'rematch': {
+        const seated = membership.get(socket);
+        // A forfeit closes the room, so the player left behind has no one to play again with
+        if (!seated) return send(socket, { type: 'error', message: createMessage('online.roomClosed') });
+        if (seated.room.game?.status === 'game_over' && seated.room.players.length === ONLINE_SEATS) {
+          startGame(seated.room);
+        }
+        return;
+      }
+      case 'leave':
+        leaveCurrentRoom(socket);
+        return;
+      default:
+        send(socket, { type: 'error', message: createMessage('online.unknownMessage') });
+    }
+  }
+
+  // A dropped connection keeps the seat open for a while so the player can reconnect.
+  function handleClose(socket: WebSocket) {
+    const seated = membership.get(socket);
+    if (!seated) return;
+    membership.delete(socket);
+    const { room, seat } = seated;
+    const player = room.players[seat];
+    player.socket = null;
+    broadcast(room);
+    player.disconnectTimer = setTimeout(() => {
+      if (rooms.get(room.code) === room && player.socket === null) forfeit(room, seat);
+    }, DISCONNECT_TIMEOUT_MS);
+  }
+
+  return {
+    handleMessage,
+    handleClose,
+    roomCount: () => rooms.size,
+  };
+}
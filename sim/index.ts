@@ -0,0 +1,102 @@
+import { writeFileSync } from 'fs';
+import { parseArgs } from 'util';
+import { RuleSet } from '../src/types';
+import { AI_DIFFICULTIES } from '../src/ai';
+import { PERSONALITIES } from '../src/ai/personalities';
+import { DEFAULT_RULES, RULE_OPTIONS, findInvalidRules } from '../src/engine/ruleset';
+import { MAX_PLAYERS, MIN_PLAYERS } from '../src/engine/table';
+import { isRecord } from '../src/utils/guards';
+import { Strategy, reportToCsv, runSimulation } from './runner';
+
+const USAGE = `Usage: npm run simulate -- [options]
+
+  --games <n>          games to play (default 1000)
+  --ai <list>          comma-separated strategy per seat: easy, normal, hard or a ladder
+                       personality (pip, mira, rosa, bruno, vex) (default normal,normal)
+  --rules <json>       rule overrides, e.g. '{"stacking":true,"decks":2}'
+  --seed <text>        base seed; game i is dealt from "<seed>-i" (default sim)
+  --rollouts <n>       rollouts per hard AI decision (default 200)
+  --format <json|csv>  report format (default json)
+  --out <file>         write the report to a file instead of stdout`;
+
+function fail(message: string): never {
+  console.error(`${message}\n\n${USAGE}`);
+  process.exit(1);
+}
+
+function parsePositive(value: string, name: string): number {
+  const n = Number(value);
+  if (!Number.isInteger(n) || n <= 0) fail(`--${name} must be a positive integer`);
+  return n;
+}
+
+function parseRules(json: string | undefined): RuleSet {
+  if (!json) return DEFAULT_RULES;
+  let overrides: unknown;
+  try {
+    overrides = JSON.parse(json);
+  } catch {
+    fail('--rules is not valid JSON');
+  }
+  if (!isRecord(overrides)) fail('--rules must be a JSON object');
+  const unknown = Object.keys(overrides).filter(key => !(key in DEFAULT_RULES));
+  if (unknown.length > 0) fail(`Unknown rules: ${unknown.join(', ')}`);
+  const invalid = findInvalidRules(overrides);
+  if (invalid.length > 0) {
+    fail(invalid.map(key => `Invalid value for ${key}: ${JSON.stringify(overrides[key])} (expected ${RULE_OPTIONS[key].join(', ')})`).join('\n'));
+  }
+  return { ...DEFAULT_RULES, ...overrides };
+}
+
+const STRATEGIES: Strategy[] = [...AI_DIFFICULTIES, ...PERSONALITIES.map(p => p.id)];
+
+function parseStrategies(list: string): Strategy[] {
+  const strategies = list.split(',').map(s => s.trim());
+  const invalid = strategies.filter(s => !STRATEGIES.includes(s as Strategy));
+  if (invalid.length > 0) fail(`Unknown AI strategies: ${invalid.join(', ')}`);
+  if (strategies.length < MIN_PLAYERS || strategies.length > MAX_PLAYERS) {
+    fail(`--ai needs between ${MIN_PLAYERS} and ${MAX_PLAYERS} seats`);
+  }
+  return strategies as Strategy[];
+}
+
+const { values } = parseArgs({
+  options: {
+    games: { type: 'string', default: '1000' },
+    ai: { type: 'string', default: 'normal,normal' },
+    rules: { type: 'string' },
+    seed: { type: 'string', default: 'sim' },
+    rollouts: { type: 'string', default: '200' },
+    format: { type: 'string', default: 'json' },
+    out: { type: 'string' },
+    help: { type: 'boolean', short: 'h' },
+  },
+});
+
+if (values.help) {
+  console.log(USAGE);
+  process.exit(0);
+}
+if (values.format !== 'json' && values.format !== 'csv') fail('--format must be json or csv');
+
+const options = {
+  games: parsePositive(values.games, 'games'),
+  seed: values.seed,
+  rules: parseRules(values.rules),
+  strategies: parseStrategies(values.ai),
+  hardRollouts: parsePositive(values.rollouts, 'rollouts'),
+};
+
+// Progress goes to stderr so stdout stays a clean report
+const started = Date.now();
+const report = runSimulation(options, done => {
+  if (done % 100 === 0 || done === options.games) process.stderr.write(`\r${done}/${options.games} games`);
+});
+process.stderr.write(` in ${((Date.now() - started) / 1000).toFixed(1)}s\n`);
+
+const output = values.format === 'csv' ? reportToCsv(report) : JSON.stringify(report, null, 2) + '\n';
+if (values.out) {
+  writeFileSync(values.out, output);
+} else {
+  process.stdout.write(output);
+}
@@ -0,0 +1,164 @@
+import { AIDifficulty, AIPlayer, GameState, PersonalityId, RuleSet } from '../src/types';
+import { applyAction, createGame } from '../src/engine/rules';
+import { nameSeats } from '../src/engine/table';
+import { createEasyAI } from '../src/ai/easy';
+import { normalAI } from '../src/ai/normal';
+import { createHardAI } from '../src/ai/hard';
+import { PERSONALITIES, createPersonalityAI } from '../src/ai/personalities';
+import { createRng, hashSeed } from '../src/utils/random';
+
+// Headless AI-vs-AI games. Everything is derived from the base seed, so the same options
+// always produce the same report.
+
+// A difficulty, or a named personality from the ladder
+export type Strategy = AIDifficulty | PersonalityId;
+
+export interface SimulationOptions {
+  games: number;
+  seed: string;
+  rules: RuleSet;
+  // One strategy per seat
+  strategies: Strategy[];
+  // Rollouts per hard AI decision; a fixed count instead of a time budget keeps runs reproducible
+  hardRollouts: number;
+}
+
+export interface GameResult {
+  seed: string;
+  // Null when the game hit the step limit without a winner
+  winner: number | null;
+  firstSeat: number;
+  turns: number;
+  reshuffles: number;
+  blocked: boolean;
+}
+
+// A rate with its 95% confidence interval
+export interface Estimate {
+  value: number;
+  low: number;
+  high: number;
+}
+
+export interface SeatReport {
+  seat: number;
+  strategy: Strategy;
+  wins: number;
+  winRate: Estimate;
+}
+
+export interface SimulationReport {
+  games: number;
+  seed: string;
+  rules: RuleSet;
+  seats: SeatReport[];
+  // How often the seat that moved first won, next to what an even game would give
+  firstPlayerWinRate: Estimate;
+  fairShare: number;
+  averageTurns: number;
+  reshufflesPerGame: number;
+  // Share of games with at least one reshuffle
+  reshuffleRate: Estimate;
+  blockedRate: Estimate;
+  unfinished: number;
+}
+
+// Far beyond any real game; only a rules bug should ever get here
+const MAX_STEPS = 10000;
+const Z_95 = 1.96;
+
+function createStrategy(strategy: Strategy, seed: string, hardRollouts: number): AIPlayer {
+  const random = createRng(hashSeed(`${seed}/${strategy}`)).next;
+  switch (strategy) {
+    case 'easy': return createEasyAI(random);
+    case 'normal': return normalAI;
+    case 'hard': return createHardAI({ random, timeBudgetMs: Infinity, maxRollouts: hardRollouts });
+    default: return createPersonalityAI(PERSONALITIES.find(p => p.id === strategy)!, random);
+  }
+}
+
+// Wilson score interval: stays inside 0..1 and behaves for rates near the edges.
+export function wilsonInterval(successes: number, trials: number, z = Z_95): Estimate {
+  if (trials === 0) return { value: 0, low: 0, high: 0 };
+  const p = successes / trials;
+  const denominator = 1 + (z * z) / trials;
+  const centre = (p + (z * z) / (2 * trials)) / denominator;
+  const margin = (z * Math.sqrt((p * (1 - p)) / trials + (z * z) / (4 * trials * trials))) / denominator;
+  return { value: p, low: Math.max(0, centre - margin), high: Math.min(1, centre + margin) };
+}
+
+// The dealer rotates from game to game so every seat moves first equally often.
+export function playGame(options: SimulationOptions, index: number): GameResult {
+  const seed = `${options.seed}-${index}`;
+  const seats = nameSeats(options.strategies.map(() => 'ai'));
+  const dealer = index % seats.length;
+  const players = options.strategies.map((strategy, seat) => createStrategy(strategy, `${seed}/${seat}`, options.hardRollouts));
+
+  let state: GameState = createGame({ seed, rules: options.rules, seats, dealer });
+  const firstSeat = state.turn;
+  for (let step = 0; step < MAX_STEPS && state.status !== 'game_over'; step++) {
+    const next = applyAction(state, players[state.turn].chooseAction(state));
+    if (next === state) throw new Error(`Seat ${state.turn} chose an illegal move in game ${seed}`);
+    state = next;
+  }
+
+  return {
+    seed,
+    winner: state.winner,
+    firstSeat,
+    turns: state.stats.turns,
+    reshuffles: state.stats.reshuffles,
+    blocked: state.blocked,
+  };
+}
+
+export function summarize(options: SimulationOptions, results: GameResult[]): SimulationReport {
+  const games = results.length;
+  const count = (test: (r: GameResult) => boolean) => results.filter(test).length;
+  const average = (value: (r: GameResult) => number) =>
+    games === 0 ? 0 : results.reduce((sum, r) => sum + value(r), 0) / games;
+
+  return {
+    games,
+    seed: options.seed,
+    rules: options.rules,
+    seats: options.strategies.map((strategy, seat) => {
+      const wins = count(r => r.winner === seat);
+      return { seat, strategy, wins, winRate: wilsonInterval(wins, games) };
+    }),
+    firstPlayerWinRate: wilsonInterval(count(r => r.winner === r.firstSeat), games),
+    fairShare: 1 / options.strategies.length,
+    averageTurns: average(r => r.turns),
+    reshufflesPerGame: average(r => r.reshuffles),
+    reshuffleRate: wilsonInterval(count(r => r.reshuffles > 0), games),
+    blockedRate: wilsonInterval(count(r => r.blocked), games),
+    unfinished: count(r => r.winner === null),
+  };
+}
+
+export function runSimulation(options: SimulationOptions, onProgress?: (done: number) => void): SimulationReport {
+  const results: GameResult[] = [];
+  for (let i = 0; i < options.games; i++) {
+    results.push(playGame(options, i));
+    onProgress?.(i + 1);
+  }
+  return summarize(options, results);
+}
+
+// One row per measurement; seat columns stay empty for table-wide figures.
+export function reportToCsv(report: SimulationReport): string {
+  const rows: (string | number)[][] = [['metric', 'seat', 'strategy', 'value', 'low', 'high']];
+  const estimate = (metric: string, e: Estimate, seat: number | '' = '', strategy = '') =>
+    rows.push([metric, seat, strategy, e.value, e.low, e.high]);
+
+  report.seats.forEach(s => estimate('win_rate', s.winRate, s.seat, s.strategy));
+  estimate('first_player_win_rate', report.firstPlayerWinRate);
+  rows.push(['fair_share', '', '', report.fairShare, '', '']);
+  rows.push(['average_turns', '', '', report.averageTurns, '', '']);
+  rows.push(['reshuffles_per_game', '', '', report.reshufflesPerGame, '', '']);
+  estimate('reshuffle_rate', report.reshuffleRate);
+  estimate('blocked_rate', report.blockedRate);
+  rows.push(['games', '', '', report.games, '', '']);
+  rows.push(['unfinished', '', '', report.unfinished, '', '']);
+  return rows.map(row => row.join(',')).join('\n') + '\n';
+}
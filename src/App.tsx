@@ -3,231 +3,551 @@
  * SPDX-License-Identifier: Apache-2.0
  */
 
-import React, { useState, useEffect, useCallback } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import { motion, AnimatePresence } from 'motion/react';
 import { PlayingCard } from './components/PlayingCard';
-import { Card, GameState, Suit, GameStatus } from './types';
-import { createDeck, canPlay, shuffle } from './utils/deck';
-import { Trophy, RotateCcw, Info, ChevronRight, Layers } from 'lucide-react';
+import { CardThemePicker } from './components/CardThemePicker';
+import { PacingPicker } from './components/PacingPicker';
+import { TurnClockRing } from './components/TurnClockRing';
+import { TutorialOverlay } from './components/TutorialOverlay';
+import { PuzzleScreen } from './components/PuzzleScreen';
+import { PuzzlePanel } from './components/PuzzlePanel';
+import { InvariantOverlay } from './components/InvariantOverlay';
+import { HandControls } from './components/HandControls';
+import { LadderScreen } from './components/LadderScreen';
+import { RuleSetPicker } from './components/RuleSetPicker';
+import { OpponentSeat } from './components/OpponentSeat';
+import { TableSetup } from './components/TableSetup';
+import { ChatPanel } from './components/ChatPanel';
+import { OnlineLobby } from './components/OnlineLobby';
+import { StatsScreen } from './components/StatsScreen';
+import { MoveHistory } from './components/MoveHistory';
+import { ReplayViewer } from './components/ReplayViewer';
+import { MatchResults } from './components/MatchResults';
+import { GameReview } from './components/GameReview';
+import { FocusTrap } from './components/FocusTrap';
+import { AIDifficulty, BlockedTiebreak, Card, ChatMessage, GameAction, GameEvent, GameState, MatchState, Message, MoveEvaluation, RuleSet, SeatConfig, Suit } from './types';
+import { SUITS } from './utils/deck';
+import { applyAction, createGame, getPlayableCards, getTopCard, isLegalAction, rankBlockedSeats } from './engine/rules';
+import { DEFAULT_RULES, getHandPoints } from './engine/ruleset';
+import { parseLog } from './engine/log';
+import { isBetweenTurns, serializePosition } from './engine/position';
+import { checkInvariants } from './engine/invariants';
+import { MATCH_TARGETS, createMatch, getMatchWinner, getRoundSetup, isRoundRecorded, recordRound, scoreRound } from './engine/match';
+import { DEFAULT_SEATS, nameSeats } from './engine/table';
+import { requestAiAction, requestHint } from './ai/client';
+import { describeAction } from './ai/review';
+import { createTableTalk } from './chat';
+import { detectTableEvent, pickSpeaker } from './chat/events';
+import { useOnlineGame } from './online/useOnlineGame';
+import { viewToGameState } from './online/view';
+import { dailySeed, randomSeed } from './utils/random';
+import { recordGame } from './stats/api';
+import { loadProfile, saveProfile } from './stats/profile';
+import { clearSavedGame, loadSavedGame, saveGame } from './save/savedGame';
+import { LOCALES, LOCALE_NAMES, Locale, createMessage, formatMessage, setLocale, t } from './i18n';
+import { useLocale } from './i18n/useLocale';
+import { CARD_SIZE_CLASSES, SUIT_SYMBOLS, getSuitColor } from './theme';
+import { useCardTheme } from './theme/useCardTheme';
+import { AI_DELAYS, CLOCK_WARNING_SECONDS, getTimeoutAction } from './pacing';
+import { usePacing, useTurnClock } from './pacing/usePacing';
+import { FRESH_CARD_MS, arrangeHand, moveCard, setHandArrangement, startsSuitGroup } from './hand';
+import { useHandArrangement } from './hand/useHandArrangement';
+import { LESSONS, createLessonGame } from './tutorial/lessons';
+import { getResumeLesson, loadTutorialProgress, saveTutorialProgress } from './tutorial/progress';
+import { PUZZLES, Puzzle, countSolverTurns, createPuzzleGame, getPuzzleStatus } from './puzzles/puzzles';
+import { loadSolvedPuzzles, saveSolvedPuzzles } from './puzzles/progress';
+import { Personality } from './ai/personalities';
+import { createLadderGame, getLadderOpponent, isLadderGameRecorded, loadLadderProgress, recordLadderGame, saveLadderProgress } from './ladder';
+import { Trophy, RotateCcw, Info, ChevronRight, Layers, CalendarDays, MessageCircle, WifiOff, BarChart3, Play, Film, Upload, Lightbulb, SearchCheck, GraduationCap, Puzzle as PuzzleIcon, ClipboardCopy, Medal } from 'lucide-react';
+
+// Shared by every render without a hand to show, so effects keyed on the hand stay quiet
+const NO_CARDS: Card[] = [];
 
 export default function App() {
-  const [state, setState] = useState<GameState>({
+  const [localState, setState] = useState<GameState>({
     deck: [],
-    playerHand: [],
-    aiHand: [],
+    seats: [],
     discardPile: [],
     currentSuit: null,
-    turn: 'player',
+    turn: 0,
+    direction: 1,
     status: 'menu',
     winner: null,
-    lastAction: '欢迎来到 Q 疯狂 8 点！',
+    blocked: false,
+    lastAction: createMessage('action.welcome'),
+    rules: DEFAULT_RULES,
+    pendingDraw: 0,
+    drawsThisTurn: 0,
+    drawnCardId: null,
+    seed: '',
+    rngState: 0,
+    stats: { turns: 0, wildsPlayed: 0, reshuffles: 0 },
+    log: [],
   });
 
-  const [pendingEightCard, setPendingEightCard] = useState<Card | null>(null);
-
-  // Initialize game
-  const initGame = useCallback(() => {
-    const fullDeck = createDeck();
-    const playerHand = fullDeck.splice(0, 8);
-    const aiHand = fullDeck.splice(0, 8);
-    
-    // Find a non-8 card for the start of discard pile
-    let firstCardIndex = fullDeck.findIndex(c => c.rank !== '8');
-    if (firstCardIndex === -1) firstCardIndex = 0;
-    const discardPile = [fullDeck.splice(firstCardIndex, 1)[0]];
-
-    setState({
-      deck: fullDeck,
-      playerHand,
-      aiHand,
-      discardPile,
-      currentSuit: null,
-      turn: 'player',
-      status: 'playing',
-      winner: null,
-      lastAction: '游戏开始！轮到你了。',
-    });
-  }, []);
+  const [seedInput, setSeedInput] = useState('');
+  const [rules, setRules] = useState<RuleSet>(DEFAULT_RULES);
+  const [seatConfigs, setSeatConfigs] = useState<SeatConfig[]>(DEFAULT_SEATS);
+  const [difficulty, setDifficulty] = useState<AIDifficulty>('normal');
+  // Human seat whose hand is shown at the bottom of the board
+  const [localViewSeat, setViewSeat] = useState(0);
+  const [tableTalkEnabled, setTableTalkEnabled] = useState(true);
+  const [chat, setChat] = useState<ChatMessage[]>([]);
+  const locale = useLocale();
+  const cardTheme = useCardTheme();
+  const pacing = usePacing();
+  const [profile, setProfile] = useState(loadProfile);
+  const [showStats, setShowStats] = useState(false);
+  const [savedGame, setSavedGame] = useState(loadSavedGame);
+  const [replayEvents, setReplayEvents] = useState<GameEvent[] | null>(null);
+  const [importError, setImportError] = useState<Message | null>(null);
+  // Target score of a new match; null plays single games
+  const [matchTarget, setMatchTarget] = useState<number | null>(null);
+  const [match, setMatch] = useState<MatchState | null>(null);
+  const [showStandings, setShowStandings] = useState(false);
+  // Hints are tied to the exact state they were computed for
+  const [hint, setHint] = useState<{ state: GameState; moves: MoveEvaluation[] } | null>(null);
+  const [hintRequested, setHintRequested] = useState<GameState | null>(null);
+  const [review, setReview] = useState<{ events: GameEvent[]; seats: number[] } | null>(null);
+  // Lesson being played; `blocked` is set when the learner tries a move the lesson does not teach
+  const [tutorial, setTutorial] = useState<{ lesson: number; blocked: boolean } | null>(null);
+  const [tutorialProgress, setTutorialProgress] = useState(loadTutorialProgress);
+  const [puzzle, setPuzzle] = useState<Puzzle | null>(null);
+  const [showPuzzles, setShowPuzzles] = useState(false);
+  const [solvedPuzzles, setSolvedPuzzles] = useState(loadSolvedPuzzles);
+  const [positionCopied, setPositionCopied] = useState(false);
+  const [ladder, setLadder] = useState(loadLadderProgress);
+  const [showLadder, setShowLadder] = useState(false);
+  // Table whose invariant violations the developer has already seen
+  const [dismissedViolations, setDismissedViolations] = useState<GameState | null>(null);
+
+  // Initialize game (or the first round of a match). Without a seed a fresh random one is generated.
+  const initGame = useCallback((seed?: string) => {
+    const seats = seatConfigs.map(seat => (seat.kind === 'ai' ? { ...seat, difficulty } : seat));
+    if (matchTarget) {
+      const next = createMatch(seats, matchTarget, seed || randomSeed());
+      setMatch(next);
+      setState(createGame({ ...getRoundSetup(next), rules }));
+    } else {
+      setMatch(null);
+      setState(createGame({ seed, rules, seats }));
+    }
+    setTutorial(null);
+    setPuzzle(null);
+    setViewSeat(0);
+  }, [rules, seatConfigs, difficulty, matchTarget]);
+
+  const nextRound = () => {
+    setState(prev => createGame({ ...getRoundSetup(match!), rules: prev.rules }));
+    setViewSeat(0);
+  };
 
+  // Score every finished round of a match exactly once
   useEffect(() => {
-    if (state.status === 'waiting') {
-      initGame();
+    if (match && localState.status === 'game_over' && localState.winner !== null && !isRoundRecorded(match, localState)) {
+      setMatch(recordRound(match, localState));
     }
-  }, [state.status, initGame]);
-
-  // Reshuffle discard pile back into deck when deck is low
-  const reshuffleIfNeeded = useCallback(() => {
-    setState(prev => {
-      if (prev.deck.length > 2 || prev.discardPile.length <= 1) return prev;
-      
-      const topCard = prev.discardPile[prev.discardPile.length - 1];
-      const restOfDiscard = prev.discardPile.slice(0, -1);
-      const newDeck = shuffle([...prev.deck, ...restOfDiscard]);
-      
-      return {
-        ...prev,
-        deck: newDeck,
-        discardPile: [topCard],
-        lastAction: '摸牌堆已耗尽，弃牌堆已重新洗牌。',
-      };
-    });
-  }, []);
+  }, [localState, match]);
 
-  // Check for winner
   useEffect(() => {
-    if (state.status === 'playing') {
-      if (state.playerHand.length === 0) {
-        setState(prev => ({ ...prev, status: 'game_over', winner: 'player', lastAction: '你赢了！' }));
-      } else if (state.aiHand.length === 0) {
-        setState(prev => ({ ...prev, status: 'game_over', winner: 'ai', lastAction: 'AI 赢了！' }));
-      }
+    if (localState.status === 'waiting') {
+      initGame(localState.seed || undefined);
+    }
+  }, [localState.status, localState.seed, initGame]);
+
+  // Auto-save: every local transition is written to storage, so a refresh or a trip back to the
+  // menu can pick the game up again (even mid suit selection or during an AI turn). Tutorial
+  // and puzzle deals are never saved over a real game.
+  useEffect(() => {
+    if (localState.status === 'playing' || localState.status === 'suit_selection') {
+      if (!tutorial && !puzzle) saveGame(localState, match);
+    } else if (localState.status === 'game_over') {
+      if (!puzzle) clearSavedGame();
+    } else if (localState.status === 'menu') {
+      setSavedGame(loadSavedGame());
     }
-  }, [state.playerHand.length, state.aiHand.length, state.status]);
+  }, [localState, match, tutorial, puzzle]);
 
-  const getSuitName = (suit: Suit) => {
-    const names: Record<Suit, string> = { hearts: '红心', diamonds: '方块', clubs: '梅花', spades: '黑桃' };
-    return names[suit];
+  const continueGame = () => {
+    if (!savedGame?.ok) return;
+    setState(savedGame.state);
+    setMatch(savedGame.match);
+    setTutorial(null);
+    setPuzzle(null);
+    // Pass-and-play hands stay hidden until the device is handed over again
+    setViewSeat(0);
   };
 
-  const playCard = useCallback((card: Card, player: 'player' | 'ai', chosenSuit?: Suit) => {
-    setState(prev => {
-      const isPlayer = player === 'player';
-      const hand = isPlayer ? prev.playerHand : prev.aiHand;
-      const newHand = hand.filter(c => c.id !== card.id);
-      
-      return {
-        ...prev,
-        [isPlayer ? 'playerHand' : 'aiHand']: newHand,
-        discardPile: [...prev.discardPile, card],
-        currentSuit: chosenSuit || null,
-        turn: isPlayer ? 'ai' : 'player',
-        lastAction: `${isPlayer ? '你' : 'AI'} 打出了 ${getSuitName(card.suit)} ${card.rank}${chosenSuit ? `。新花色：${getSuitName(chosenSuit)}` : ''}`,
-      };
-    });
-  }, []);
-
-  const drawCard = useCallback((player: 'player' | 'ai') => {
-    let canPlayAfterDraw = false;
-    
-    setState(prev => {
-      if (prev.deck.length === 0) return prev;
-      
-      const newDeck = [...prev.deck];
-      const drawnCard = newDeck.pop()!;
-      const isPlayer = player === 'player';
-      const hand = isPlayer ? prev.playerHand : prev.aiHand;
-      
-      const topCard = prev.discardPile[prev.discardPile.length - 1];
-      const canPlayDrawn = canPlay(drawnCard, topCard, prev.currentSuit);
-      canPlayAfterDraw = canPlayDrawn;
-
-      return {
-        ...prev,
-        deck: newDeck,
-        [isPlayer ? 'playerHand' : 'aiHand']: [...hand, drawnCard],
-        // If player draws and can play, they keep their turn. Otherwise turn passes.
-        turn: isPlayer ? (canPlayDrawn ? 'player' : 'ai') : (canPlayDrawn ? 'ai' : 'player'),
-        lastAction: `${isPlayer ? '你' : 'AI'} 摸了一张牌。`,
-      };
-    });
+  // In an online game the server owns the state; the board renders our view of it
+  const online = useOnlineGame();
+  const onlineState = useMemo(() => (online.view ? viewToGameState(online.view) : null), [online.view]);
+  const state = onlineState ?? localState;
+  const viewSeat = online.view ? online.view.seat : localViewSeat;
+  const { sendAction } = online;
+  const isOnline = onlineState !== null;
+  const lesson = tutorial && !isOnline && localState.status !== 'menu' ? LESSONS[tutorial.lesson] : null;
+  const lessonDone = lesson?.isComplete(localState) ?? false;
+  const activePuzzle: Puzzle | null = puzzle && !isOnline && localState.status !== 'menu' ? puzzle : null;
+  const puzzleTurns = useMemo(() => (activePuzzle ? countSolverTurns(localState) : 0), [activePuzzle, localState]);
+  const puzzleStatus = activePuzzle ? getPuzzleStatus(activePuzzle, localState, puzzleTurns) : null;
+  // Development builds check every local transition; online the server owns the rules
+  const violations = useMemo(() => (import.meta.env.DEV && !isOnline ? checkInvariants(localState) : []), [localState, isOnline]);
+
+  // A finished puzzle takes no more moves, whoever is on turn
+  const puzzleOver = puzzleStatus === 'solved' || puzzleStatus === 'failed';
+
+  const dispatch = useCallback((action: GameAction) => {
+    if (isOnline) {
+      sendAction(action);
+    } else if (lesson && (lessonDone || !lesson.allows(localState, action))) {
+      // A lesson only lets the move it teaches through
+      setTutorial(prev => prev && { ...prev, blocked: true });
+    } else if (!puzzleOver) {
+      if (lesson) setTutorial(prev => prev && { ...prev, blocked: false });
+      setState(prev => applyAction(prev, action));
+    }
+  }, [isOnline, sendAction, lesson, lessonDone, puzzleOver, localState]);
 
-    // If deck is getting low, trigger reshuffle
-    reshuffleIfNeeded();
-  }, [reshuffleIfNeeded]);
+  const startTutorial = (index: number) => {
+    setMatch(null);
+    setState(createLessonGame(LESSONS[index]));
+    setTutorial({ lesson: index, blocked: false });
+    setViewSeat(0);
+  };
+
+  const exitTutorial = () => {
+    setTutorial(null);
+    setState(prev => ({ ...prev, status: 'menu' }));
+  };
 
-  // AI Turn Logic - Refactored to ensure it continues if AI draws a playable card
   useEffect(() => {
-    if (state.status === 'playing' && state.turn === 'ai') {
-      const timer = setTimeout(() => {
-        setState(current => {
-          if (current.status !== 'playing' || current.turn !== 'ai') return current;
+    if (lesson && lessonDone && !tutorialProgress.includes(lesson.id)) {
+      const next = LESSONS.map(l => l.id).filter(id => id === lesson.id || tutorialProgress.includes(id));
+      setTutorialProgress(next);
+      saveTutorialProgress(next);
+    }
+  }, [lesson, lessonDone, tutorialProgress]);
 
-          const topCard = current.discardPile[current.discardPile.length - 1];
-          if (!topCard) return current; // Safety guard
+  const startPuzzle = (next: Puzzle) => {
+    setMatch(null);
+    setState(createPuzzleGame(next));
+    setPuzzle(next);
+    setTutorial(null);
+    setShowPuzzles(false);
+    setViewSeat(0);
+  };
 
-          const playableCards = current.aiHand.filter(card => canPlay(card, topCard, current.currentSuit));
+  const exitPuzzle = () => {
+    setPuzzle(null);
+    setState(prev => ({ ...prev, status: 'menu' }));
+  };
 
-          if (playableCards.length > 0) {
-            const nonEight = playableCards.find(c => c.rank !== '8');
-            const cardToPlay = nonEight || playableCards[0];
+  const puzzleIndex = PUZZLES.findIndex(p => p.id !== null && p.id === activePuzzle?.id);
+  const nextPuzzle = puzzleIndex !== -1 ? PUZZLES[puzzleIndex + 1] ?? null : null;
 
-            if (cardToPlay.rank === '8') {
-              const suitCounts: Record<Suit, number> = { hearts: 0, diamonds: 0, clubs: 0, spades: 0 };
-              current.aiHand.forEach(c => { if (c.id !== cardToPlay.id) suitCounts[c.suit]++; });
-              const bestSuit = (Object.keys(suitCounts) as Suit[]).reduce((a, b) => suitCounts[a] > suitCounts[b] ? a : b);
-              
-              const newHand = current.aiHand.filter(c => c.id !== cardToPlay.id);
-              return {
-                ...current,
-                aiHand: newHand,
-                discardPile: [...current.discardPile, cardToPlay],
-                currentSuit: bestSuit,
-                turn: 'player',
-                lastAction: `AI 打出了 ${getSuitName(cardToPlay.suit)} 8。新花色：${getSuitName(bestSuit)}`,
-              };
-            } else {
-              const newHand = current.aiHand.filter(c => c.id !== cardToPlay.id);
-              return {
-                ...current,
-                aiHand: newHand,
-                discardPile: [...current.discardPile, cardToPlay],
-                currentSuit: null,
-                turn: 'player',
-                lastAction: `AI 打出了 ${getSuitName(cardToPlay.suit)} ${cardToPlay.rank}`,
-              };
-            }
-          } else {
-            // AI must draw
-            if (current.deck.length > 0) {
-              const newDeck = [...current.deck];
-              const drawnCard = newDeck.pop();
-              if (!drawnCard) return current;
-
-              const canPlayDrawn = canPlay(drawnCard, topCard, current.currentSuit);
-              
-              return {
-                ...current,
-                deck: newDeck,
-                aiHand: [...current.aiHand, drawnCard],
-                // If playable, AI keeps turn and effect will re-run due to aiHand.length change
-                turn: canPlayDrawn ? 'ai' : 'player',
-                lastAction: `AI 摸了一张牌。`,
-              };
-            } else {
-              return { ...current, turn: 'player', lastAction: 'AI 跳过了（没有可摸的牌）' };
-            }
-          }
+  useEffect(() => {
+    if (puzzleStatus === 'solved' && activePuzzle.id && !solvedPuzzles.includes(activePuzzle.id)) {
+      const next = PUZZLES.map(p => p.id).filter(id => id === activePuzzle.id || solvedPuzzles.includes(id));
+      setSolvedPuzzles(next);
+      saveSolvedPuzzles(next);
+    }
+  }, [activePuzzle, puzzleStatus, solvedPuzzles]);
+
+  // Ladder games are the ones against a named AI; score each finished one exactly once
+  const ladderOpponent = !isOnline && localState.status !== 'menu' ? getLadderOpponent(localState) : null;
+
+  useEffect(() => {
+    if (ladderOpponent && localState.status === 'game_over' && localState.winner !== null && !isLadderGameRecorded(ladder, localState)) {
+      const next = recordLadderGame(ladder, localState);
+      setLadder(next);
+      saveLadderProgress(next);
+    }
+  }, [localState, ladder, ladderOpponent]);
+
+  const startLadderGame = (opponent: Personality) => {
+    setMatch(null);
+    setState(createLadderGame(opponent));
+    setTutorial(null);
+    setPuzzle(null);
+    setShowLadder(false);
+    setViewSeat(0);
+  };
+
+  // The table as position notation, for sharing or loading later as a custom puzzle
+  const copyPosition = () => {
+    // Serializing inside the chain lets the same catch handle its errors and the clipboard's
+    Promise.resolve()
+      .then(() => navigator.clipboard.writeText(serializePosition(localState)))
+      .then(() => {
+        setPositionCopied(true);
+        setTimeout(() => setPositionCopied(false), 2000);
+      })
+      .catch(() => {
+        // Clipboard access denied or nothing to copy
+      });
+  };
+
+  const currentSeat = state.seats[state.turn];
+  const isAiTurn = currentSeat?.kind === 'ai';
+  const turnHandSize = currentSeat?.hand.length ?? 0;
+  // Pass-and-play: another human is up, so the board waits until the device is handed over
+  const needsHandoff = !isOnline && state.status === 'playing' && currentSeat?.kind === 'human' && state.turn !== viewSeat;
+  const isMyTurn = state.status === 'playing' && state.turn === viewSeat;
+  const canDrawNow = isMyTurn && isLegalAction(state, { type: 'draw' });
+  const canPass = isMyTurn && isLegalAction(state, { type: 'pass' });
+  const playableIds = new Set(isMyTurn ? getPlayableCards(state).map(c => c.id) : []);
+  const drawnCard = isMyTurn ? state.seats[viewSeat].hand.find(c => c.id === state.drawnCardId) : undefined;
+  // Online the hidden cards are placeholders, so the AI could not judge the position
+  const canHint = isMyTurn && !isOnline && !needsHandoff;
+  const hintMoves = hint?.state === state ? hint.moves : null;
+  const hintCardId = hintMoves?.[0]?.action.type === 'play' ? hintMoves[0].action.cardId : null;
+
+  const showHint = () => {
+    const requested = state;
+    setHintRequested(requested);
+    requestHint(requested)
+      .then(moves => setHint({ state: requested, moves }))
+      // No hint to give; the button comes back so the player can try again
+      .catch(() => setHintRequested(current => (current === requested ? null : current)));
+  };
+
+  // AI Turn Logic - the effect re-runs while an AI keeps the turn (playable draw, skip) and
+  // whenever the turn moves on to the next AI seat. The AI starts thinking in a worker right
+  // away and its move is applied once the game speed's delay is over.
+  useEffect(() => {
+    // The opponent in a lesson only sits there; each lesson ends on the learner's move
+    if (state.status === 'playing' && isAiTurn && !lesson && !puzzleOver) {
+      let cancelled = false;
+      const turn = state.turn;
+      // An AI that fails to decide makes the move a player out of time would
+      const thinking = requestAiAction(currentSeat.difficulty ?? 'normal', state, currentSeat.personality).catch(() => null);
+      const timer = setTimeout(() => {
+        thinking.then(action => {
+          if (cancelled) return;
+          setState(current => {
+            if (current.status !== 'playing' || current.turn !== turn) return current;
+            return applyAction(current, action ?? getTimeoutAction(current, 'first_play'));
+          });
         });
-        
-        reshuffleIfNeeded();
-      }, 1500);
-      return () => clearTimeout(timer);
+      }, AI_DELAYS[pacing.speed]);
+      return () => {
+        cancelled = true;
+        clearTimeout(timer);
+      };
     }
-  }, [state.turn, state.status, state.aiHand.length, state.discardPile.length, reshuffleIfNeeded]);
+  }, [state.turn, state.status, isAiTurn, turnHandSize, state.discardPile.length, pacing.speed, lesson, puzzleOver]);
 
-  const handlePlayerPlay = (card: Card) => {
-    if (state.turn !== 'player' || state.status !== 'playing') return;
-    
-    const topCard = state.discardPile[state.discardPile.length - 1];
-    if (!topCard || !canPlay(card, topCard, state.currentSuit)) return;
-
-    if (card.rank === '8') {
-      setPendingEightCard(card);
-      setState(prev => ({ ...prev, status: 'suit_selection' }));
-    } else {
-      playCard(card, 'player');
+  // Table talk: turn each state transition into an event and let an AI comment on it
+  const tableTalk = useMemo(() => createTableTalk(), []);
+  const prevStateRef = useRef(state);
+  const eventCountRef = useRef(0);
+  const chatIdRef = useRef(0);
+  const gameIdRef = useRef(0);
+
+  useEffect(() => {
+    const prev = prevStateRef.current;
+    prevStateRef.current = state;
+    if (prev === state) return;
+
+    const wasInGame = prev.status === 'playing' || prev.status === 'suit_selection';
+    if (!wasInGame && state.status === 'playing') {
+      gameIdRef.current++;
+      eventCountRef.current = 0;
+      setChat([]);
+      return;
+    }
+    if (!tableTalkEnabled) return;
+
+    const event = detectTableEvent(prev, state, ++eventCountRef.current);
+    const speaker = event && pickSpeaker(state, event);
+    if (!event || !speaker) return;
+
+    const gameId = gameIdRef.current;
+    tableTalk.reply(event, speaker).then(text => {
+      if (!text || gameId !== gameIdRef.current) return;
+      setChat(messages => [...messages.slice(-19), { id: ++chatIdRef.current, speaker, text }]);
+    });
+  }, [state, tableTalkEnabled, tableTalk]);
+
+  // Match history: time every game and report it to the server once it is over
+  const prevStatusRef = useRef(state.status);
+  const gameStartRef = useRef(Date.now());
+
+  useEffect(() => {
+    const prevStatus = prevStatusRef.current;
+    prevStatusRef.current = state.status;
+    if (prevStatus === state.status) return;
+
+    if (state.status === 'playing' && prevStatus !== 'suit_selection') {
+      gameStartRef.current = Date.now();
+    } else if (state.status === 'game_over' && state.winner !== null && !puzzle) {
+      recordGame({
+        profileId: profile.id,
+        profileName: profile.name,
+        mode: isOnline ? 'online' : 'local',
+        seed: state.seed,
+        winner: state.seats[state.winner].name,
+        won: state.winner === (isOnline ? viewSeat : 0),
+        playerCount: state.seats.length,
+        turns: state.stats.turns,
+        eightsPlayed: state.stats.wildsPlayed,
+        durationMs: Date.now() - gameStartRef.current,
+      }).catch(() => {
+        // History is best effort; the game works without the server
+      });
+    }
+    // Runs on every change it reads from, but only acts when the status moves on
+  }, [state, profile, isOnline, viewSeat, puzzle]);
+
+  const viewHand = state.seats[viewSeat]?.hand ?? NO_CARDS;
+  const handArrangement = useHandArrangement();
+  // Card ids in the order the viewer dragged them into; kept for the whole game
+  const [handOrder, setHandOrder] = useState<string[]>([]);
+  const shownHand = arrangeHand(viewHand, handArrangement, handOrder, playableIds);
+
+  // Cards that just arrived in the shown hand stand out for a moment
+  const [freshIds, setFreshIds] = useState<Set<string>>(new Set());
+  const prevHandRef = useRef({ logLength: state.log.length, seat: viewSeat, ids: new Set<string>() });
+  const freshTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  useEffect(() => {
+    const prev = prevHandRef.current;
+    const ids = new Set<string>(viewHand.map(c => c.id));
+    prevHandRef.current = { logLength: state.log.length, seat: viewSeat, ids };
+    // A shorter log means a new deal: start over instead of lighting up the whole hand
+    if (state.log.length < prev.logLength || prev.ids.size === 0) {
+      setHandOrder(order => (order.length === 0 ? order : []));
+      return;
     }
+    const fresh = viewHand.filter(c => !prev.ids.has(c.id)).map(c => c.id);
+    if (prev.seat !== viewSeat || fresh.length === 0) return;
+    setFreshIds(new Set(fresh));
+    if (freshTimerRef.current) clearTimeout(freshTimerRef.current);
+    freshTimerRef.current = setTimeout(() => setFreshIds(new Set()), FRESH_CARD_MS);
+  }, [viewHand, viewSeat, state.log]);
+
+  // Dragging a card switches the hand to its manual order
+  const reorderHand = (from: number, to: number) => {
+    setHandOrder(moveCard(shownHand, from, to));
+    if (handArrangement.sort !== 'manual') setHandArrangement({ ...handArrangement, sort: 'manual' });
+  };
+
+  // Where the cards sat when the drag began; the card is dropped into the nearest slot
+  const dragSlotsRef = useRef<DOMRect[]>([]);
+  // The click that ends a drag must not play the card
+  const draggingRef = useRef(false);
+
+  const startCardDrag = () => {
+    draggingRef.current = true;
+    dragSlotsRef.current = cardRefs.current.slice(0, shownHand.length).map(el => el?.getBoundingClientRect() ?? new DOMRect(-1e6, -1e6));
+  };
+
+  const dropCard = (from: number, point: { x: number; y: number }) => {
+    setTimeout(() => {
+      draggingRef.current = false;
+    });
+    const x = point.x - window.scrollX;
+    const y = point.y - window.scrollY;
+    const distances = dragSlotsRef.current.map(box => Math.hypot(box.left + box.width / 2 - x, box.top + box.height / 2 - y));
+    const to = distances.indexOf(Math.min(...distances));
+    if (to !== -1 && to !== from) reorderHand(from, to);
+  };
+
+  const handlePlayerPlay = (card: Card) => {
+    if (!isMyTurn || draggingRef.current) return;
+    // An 8 moves the game into 'suit_selection'; the suit picker then completes the play
+    dispatch({ type: 'play', cardId: card.id });
   };
 
   const handleSuitSelect = (suit: Suit) => {
-    if (pendingEightCard) {
-      playCard(pendingEightCard, 'player', suit);
-      setPendingEightCard(null);
-      setState(prev => ({ ...prev, status: 'playing' }));
+    dispatch({ type: 'choose_suit', suit });
+  };
+
+  // Keyboard shortcuts anywhere on the board: D draws, 1-4 name a suit after an 8
+  const canChooseSuit = state.status === 'suit_selection' && state.turn === viewSeat;
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, select, textarea')) return;
+      if (e.key.toLowerCase() === 'd' && canDrawNow) {
+        dispatch({ type: 'draw' });
+      } else if (canChooseSuit && /^[1-4]$/.test(e.key)) {
+        dispatch({ type: 'choose_suit', suit: SUITS[Number(e.key) - 1] });
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [canDrawNow, canChooseSuit, dispatch]);
+
+  // Turn clock for the human whose hand is shown: restarts every turn and makes the default
+  // move once it runs out
+  const clockRunning = (isMyTurn || canChooseSuit) && !needsHandoff && !lesson && !activePuzzle;
+  const secondsLeft = useTurnClock(pacing.turnSeconds, `${state.seed}:${state.stats.turns}`, clockRunning, () => {
+    dispatch(getTimeoutAction(state, pacing.timeoutMove));
+  });
+
+  // Roving focus through the hand: one card is in the tab order, arrows move between them
+  const [handFocus, setHandFocus] = useState(0);
+  const cardRefs = useRef<(HTMLDivElement | null)[]>([]);
+
+  // Alt plus an arrow carries the focused card along instead, like dragging it
+  const handleHandKeyDown = (e: React.KeyboardEvent) => {
+    const last = shownHand.length - 1;
+    const current = Math.min(handFocus, last);
+    const moves: Record<string, number> = {
+      ArrowLeft: current - 1, ArrowUp: current - 1, ArrowRight: current + 1, ArrowDown: current + 1, Home: 0, End: last,
+    };
+    if (!(e.key in moves) || last < 0) return;
+    e.preventDefault();
+    const next = Math.max(0, Math.min(last, moves[e.key]));
+    if (e.altKey) {
+      if (next !== current) reorderHand(current, next);
+      setHandFocus(next);
+      return;
+    }
+    setHandFocus(next);
+    cardRefs.current[next]?.focus();
+  };
+
+  // Default seat names are in the old language; rename them along with the switch
+  const switchLocale = (next: Locale) => {
+    setLocale(next);
+    setSeatConfigs(seats => nameSeats(seats.map(seat => seat.kind)));
+  };
+
+  const importReplay = async (file: File) => {
+    const parsed = parseLog(await file.text());
+    if (parsed.ok === false) {
+      setImportError(parsed.error);
+      return;
     }
+    setImportError(null);
+    setReplayEvents(parsed.events);
   };
 
-  const topCard = state.discardPile.length > 0 ? state.discardPile[state.discardPile.length - 1] : null;
+  const topCard = getTopCard(state);
+  const winnerSeat = state.winner !== null ? state.seats[state.winner] : null;
+  const isLoss = winnerSeat?.kind === 'ai' || (isOnline && state.winner !== viewSeat);
+  const activeMatch = isOnline ? null : match;
+  const matchWinner = activeMatch ? getMatchWinner(activeMatch) : null;
+  const dealer = state.log[0]?.type === 'deal' ? state.log[0].dealer : null;
+  // Read out by screen readers: every move, including the AI's, and whose turn it is now
+  const announcement = state.status === 'menu'
+    ? ''
+    : state.status === 'playing' && currentSeat
+      ? `${formatMessage(state.lastAction)} ${state.turn === viewSeat ? t('action.yourTurn') : t('action.turnOf', { player: currentSeat.name })}`
+      : formatMessage(state.lastAction);
+  const opponentOffline = online.view?.seats.some((seat, i) => i !== viewSeat && !seat.connected) ?? false;
+
+  // Opponents in turn order starting from the viewer's left, wrapped around the table
+  const opponents = state.seats.map((_, i) => (viewSeat + 1 + i) % state.seats.length).slice(0, -1);
+  const sideCount = opponents.length >= 5 ? 2 : opponents.length >= 2 ? 1 : 0;
+  const leftSeats = opponents.slice(0, sideCount);
+  const topSeats = opponents.slice(sideCount, opponents.length - sideCount);
+  const rightSeats = opponents.slice(opponents.length - sideCount).reverse();
+  const renderOpponent = (seat: number) => (
+    <OpponentSeat key={seat} seat={state.seats[seat]} isActive={state.turn === seat} compact={opponents.length > 1} />
+  );
 
   return (
     <div className="min-h-screen bg-[#1a1c2c] text-white font-sans selection:bg-indigo-500/30 overflow-hidden flex flex-col">
@@ -235,16 +555,40 @@ export default function App() {
       <header className="p-4 flex justify-between items-center border-bottom border-white/10 bg-black/20 backdrop-blur-md z-10">
         <div className="flex items-center gap-2">
           <div className="w-8 h-8 bg-indigo-600 rounded flex items-center justify-center font-bold text-xl shadow-lg shadow-indigo-500/20">Q</div>
-          <h1 className="text-xl font-bold tracking-tight">疯狂 8 点</h1>
+          <h1 className="text-xl font-bold tracking-tight">{t('app.title')}</h1>
         </div>
         <div className="flex items-center gap-4">
           <div className="hidden sm:flex items-center gap-2 px-3 py-1 bg-white/5 rounded-full border border-white/10">
             <Layers className="w-4 h-4 text-indigo-400" />
-            <span className="text-sm font-mono">剩余 {state.deck.length} 张</span>
+            <span className="text-sm font-mono">{t('board.deckLeft', { count: state.deck.length })}</span>
           </div>
+          {activeMatch && state.status !== 'menu' && (
+            <div className="hidden sm:flex items-center gap-2 px-3 py-1 bg-white/5 rounded-full border border-white/10 text-sm font-mono">
+              <Trophy className="w-4 h-4 text-yellow-400" />
+              {activeMatch.seats.map((seat, i) => `${seat.name} ${activeMatch.scores[i]}`).join(' · ')}
+              <span className="opacity-40">/ {activeMatch.target}</span>
+            </div>
+          )}
+          {state.seed && (
+            <div className="hidden md:block text-xs font-mono opacity-40" title={t('board.seed')}>#{state.seed}</div>
+          )}
+          {!isOnline && (state.status === 'playing' || state.status === 'suit_selection') && (
+            <button
+              onClick={copyPosition}
+              disabled={!isBetweenTurns(localState)}
+              aria-label={positionCopied ? t('board.positionCopied') : t('board.copyPosition')}
+              title={positionCopied ? t('board.positionCopied') : isBetweenTurns(localState) ? t('board.copyPosition') : t('board.positionMidTurn')}
+              className={`p-2 hover:bg-white/10 disabled:opacity-30 disabled:hover:bg-transparent rounded-full transition-colors ${positionCopied ? 'text-green-400' : ''}`}
+            >
+              <ClipboardCopy className="w-5 h-5" />
+            </button>
+          )}
           <button 
             onClick={() => {
-              if (state.status === 'playing' && !window.confirm('确定要退出当前游戏回到主菜单吗？')) return;
+              if (isOnline && state.status === 'playing' && !window.confirm(t('board.confirmQuit'))) return;
+              if (isOnline) online.leave();
+              setTutorial(null);
+              setPuzzle(null);
               setState(prev => ({ ...prev, status: 'menu' }));
             }}
             className="p-2 hover:bg-white/10 rounded-full transition-colors"
@@ -257,104 +601,226 @@ export default function App() {
       {/* Game Board */}
       <main className="flex-1 relative flex flex-col items-center justify-between p-4 sm:p-8 max-w-6xl mx-auto w-full">
         
-        {/* AI Hand */}
-        <div className="w-full flex flex-col items-center gap-2">
-          <div className="flex items-center gap-2 mb-2">
-            <div className={`w-2 h-2 rounded-full ${state.turn === 'ai' ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
-            <span className="text-sm font-medium opacity-70 uppercase tracking-widest">对手 ({state.aiHand.length})</span>
+        {/* Opponents across the top */}
+        <div className="w-full flex justify-center items-start gap-4 sm:gap-8">
+          {topSeats.map(renderOpponent)}
+        </div>
+
+        <div className="w-full flex items-center justify-between gap-4">
+          {/* Opponents on the left */}
+          <div className="flex flex-col gap-4 min-w-0">
+            {leftSeats.map(renderOpponent)}
           </div>
-          <div className="flex -space-x-12 sm:-space-x-16 hover:-space-x-8 transition-all duration-300">
-            {state.aiHand.map((card, i) => (
-              <motion.div
-                key={card.id}
-                initial={{ y: -50, opacity: 0 }}
-                animate={{ y: 0, opacity: 1 }}
-                transition={{ delay: i * 0.05 }}
+
+          {/* Center Area (Deck & Discard) */}
+          <div className="flex items-center gap-8 sm:gap-16 my-8 mx-auto">
+            {/* Draw Pile */}
+            <div className="relative group">
+              <div className="absolute -inset-4 bg-indigo-500/10 rounded-xl blur-xl group-hover:bg-indigo-500/20 transition-all"></div>
+              <div 
+                role="button"
+                tabIndex={canDrawNow ? 0 : -1}
+                aria-label={t('board.drawPile', { count: state.deck.length })}
+                aria-disabled={!canDrawNow}
+                aria-keyshortcuts="D"
+                data-tutorial="draw_pile"
+                onClick={() => canDrawNow && dispatch({ type: 'draw' })}
+                onKeyDown={e => {
+                  if (canDrawNow && (e.key === 'Enter' || e.key === ' ')) {
+                    e.preventDefault();
+                    dispatch({ type: 'draw' });
+                  }
+                }}
+                className={`relative cursor-pointer transition-transform active:scale-95 rounded-lg outline-none focus-visible:ring-4 focus-visible:ring-sky-400 ${!canDrawNow ? 'opacity-50 grayscale pointer-events-none' : ''}`}
               >
-                <PlayingCard card={card} isFaceUp={false} className="shadow-2xl" />
-              </motion.div>
-            ))}
-          </div>
-        </div>
+                {state.deck.length > 0 ? (
+                  <>
+                    <PlayingCard card={state.deck[0]} isFaceUp={false} className="translate-x-1 translate-y-1 opacity-40 border-none shadow-none" />
+                    <PlayingCard card={state.deck[0]} isFaceUp={false} className="absolute inset-0" />
+                  </>
+                ) : (
+                  <div className={`${CARD_SIZE_CLASSES[cardTheme.size]} border-2 border-dashed border-white/20 rounded-lg flex items-center justify-center text-white/20`}>
+                    {t('board.empty')}
+                  </div>
+                )}
+                {canDrawNow && (
+                  <div className="absolute -top-2 -right-2 bg-yellow-400 text-black text-[10px] font-bold px-2 py-0.5 rounded-full shadow-lg animate-bounce">
+                    {state.pendingDraw > 0 ? t('board.drawPenalty', { count: state.pendingDraw }) : state.drawsThisTurn > 0 ? t('board.drawAgain') : t('board.draw')}
+                  </div>
+                )}
+              </div>
+            </div>
 
-        {/* Center Area (Deck & Discard) */}
-        <div className="flex items-center gap-8 sm:gap-16 my-8">
-          {/* Draw Pile */}
-          <div className="relative group">
-            <div className="absolute -inset-4 bg-indigo-500/10 rounded-xl blur-xl group-hover:bg-indigo-500/20 transition-all"></div>
-            <div 
-              onClick={() => state.turn === 'player' && state.status === 'playing' && drawCard('player')}
-              className={`relative cursor-pointer transition-transform active:scale-95 ${state.turn !== 'player' ? 'opacity-50 grayscale pointer-events-none' : ''}`}
-            >
-              {state.deck.length > 0 ? (
-                <>
-                  <PlayingCard card={state.deck[0]} isFaceUp={false} className="translate-x-1 translate-y-1 opacity-40 border-none shadow-none" />
-                  <PlayingCard card={state.deck[0]} isFaceUp={false} className="absolute inset-0" />
-                </>
-              ) : (
-                <div className="w-20 h-28 sm:w-24 sm:h-36 border-2 border-dashed border-white/20 rounded-lg flex items-center justify-center text-white/20">
-                  空
-                </div>
-              )}
-              {state.turn === 'player' && state.status === 'playing' && (
-                <div className="absolute -top-2 -right-2 bg-yellow-400 text-black text-[10px] font-bold px-2 py-0.5 rounded-full shadow-lg animate-bounce">
-                  摸牌
-                </div>
-              )}
+            {/* Discard Pile */}
+            <div className="relative" data-tutorial="discard_pile">
+               <AnimatePresence mode="popLayout">
+                  <motion.div
+                    key={topCard ? topCard.id : 'empty-discard'}
+                    initial={{ scale: 0.8, opacity: 0, rotate: -10, x: -50 }}
+                    animate={{ scale: 1, opacity: 1, rotate: 0, x: 0 }}
+                    className="relative"
+                  >
+                    {topCard && <PlayingCard card={topCard} />}
+                    {state.currentSuit && (
+                      <div data-tutorial="current_suit" className="absolute -bottom-6 left-1/2 -translate-x-1/2 bg-indigo-600 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-tighter whitespace-nowrap shadow-lg border border-white/20">
+                        {t('board.currentSuit', { suit: { suit: state.currentSuit } })}
+                      </div>
+                    )}
+                  </motion.div>
+               </AnimatePresence>
             </div>
           </div>
 
-          {/* Discard Pile */}
-          <div className="relative">
-             <AnimatePresence mode="popLayout">
-                <motion.div
-                  key={topCard ? topCard.id : 'empty-discard'}
-                  initial={{ scale: 0.8, opacity: 0, rotate: -10, x: -50 }}
-                  animate={{ scale: 1, opacity: 1, rotate: 0, x: 0 }}
-                  className="relative"
-                >
-                  {topCard && <PlayingCard card={topCard} />}
-                  {state.currentSuit && (
-                    <div className="absolute -bottom-6 left-1/2 -translate-x-1/2 bg-indigo-600 px-3 py-1 rounded-full text-[10px] font-bold uppercase tracking-tighter whitespace-nowrap shadow-lg border border-white/20">
-                      当前花色: {getSuitName(state.currentSuit)}
-                    </div>
-                  )}
-                </motion.div>
-             </AnimatePresence>
+          {/* Opponents on the right */}
+          <div className="flex flex-col gap-4 min-w-0">
+            {rightSeats.map(renderOpponent)}
           </div>
         </div>
 
         {/* Player Hand */}
         <div className="w-full flex flex-col items-center gap-4">
           <div className="flex items-center gap-2">
-            <div className={`w-2 h-2 rounded-full ${state.turn === 'player' ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
-            <span className="text-sm font-medium opacity-70 uppercase tracking-widest">你的手牌 ({state.playerHand.length})</span>
+            <div className={`w-2 h-2 rounded-full ${state.turn === viewSeat ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
+            <span className="text-sm font-medium opacity-70 uppercase tracking-widest">
+              {isOnline || viewSeat === 0 ? t('board.yourHand') : t('board.seatHand', { player: state.seats[viewSeat].name })} ({viewHand.length})
+            </span>
+            {!needsHandoff && viewHand.length > 1 && <HandControls />}
+            {canPass && (
+              <button
+                onClick={() => dispatch({ type: 'pass' })}
+                className="ml-2 px-4 py-1 bg-yellow-400 hover:bg-yellow-300 text-black text-xs font-bold rounded-full shadow-lg transition-colors"
+              >
+                {t('board.pass')}
+              </button>
+            )}
+            {secondsLeft !== null && (
+              <span className={`ml-2 text-xs font-mono font-bold ${secondsLeft <= CLOCK_WARNING_SECONDS ? 'text-red-400' : 'text-emerald-300'}`}>
+                {t('board.timeLeft', { seconds: Math.ceil(secondsLeft) })}
+              </span>
+            )}
+            {canHint && !hintMoves && (
+              <button
+                onClick={showHint}
+                disabled={hintRequested === state}
+                className="ml-2 px-3 py-1 bg-white/10 hover:bg-white/20 disabled:opacity-50 text-xs font-bold rounded-full transition-colors flex items-center gap-1"
+              >
+                <Lightbulb className="w-3 h-3 text-amber-300" />
+                {hintRequested === state ? t('board.thinking') : t('board.hint')}
+              </button>
+            )}
+            {drawnCard && (
+              <>
+                <span className="ml-2 text-xs text-emerald-300">{t('board.drewPlayable')}</span>
+                <button
+                  onClick={() => handlePlayerPlay(drawnCard)}
+                  className="px-4 py-1 bg-emerald-500 hover:bg-emerald-400 text-black text-xs font-bold rounded-full shadow-lg transition-colors"
+                >
+                  {t('board.playDrawn')}
+                </button>
+                <button
+                  onClick={() => dispatch({ type: 'keep' })}
+                  className="px-4 py-1 bg-white/10 hover:bg-white/20 text-xs font-bold rounded-full transition-colors"
+                >
+                  {t('board.keepDrawn')}
+                </button>
+              </>
+            )}
           </div>
+
+          {canHint && hintMoves && (
+            <div className="flex flex-wrap justify-center gap-2 text-xs">
+              {hintMoves.slice(0, 3).map((move, i) => (
+                <span
+                  key={i}
+                  className={`px-3 py-1 rounded-full border ${i === 0 ? 'bg-amber-400/20 border-amber-300/40 text-amber-200' : 'bg-white/5 border-white/10 text-white/60'}`}
+                >
+                  {i + 1}. {t('board.hintMove', { move: describeAction(state, move.action), percent: Math.round(move.score * 100) })}
+                </span>
+              ))}
+            </div>
+          )}
           
-          <div className="flex flex-wrap justify-center gap-2 sm:gap-4 max-w-4xl">
-            {state.playerHand.map((card, i) => (
-              <PlayingCard 
-                key={card.id} 
-                card={card} 
-                isPlayable={state.turn === 'player' && state.status === 'playing' && canPlay(card, topCard, state.currentSuit)}
-                onClick={() => handlePlayerPlay(card)}
-              />
+          <div
+            role="group"
+            aria-label={t('board.handLabel')}
+            onKeyDown={handleHandKeyDown}
+            className="relative flex flex-wrap justify-center gap-2 sm:gap-4 max-w-4xl"
+          >
+            {secondsLeft !== null && <TurnClockRing secondsLeft={secondsLeft} totalSeconds={pacing.turnSeconds} />}
+            {shownHand.map((card, i) => (
+              <motion.div
+                key={card.id}
+                layout
+                drag={!needsHandoff}
+                dragSnapToOrigin
+                dragElastic={0.2}
+                onDragStart={startCardDrag}
+                onDragEnd={(_, info) => dropCard(i, info.point)}
+                whileDrag={{ scale: 1.08, zIndex: 20 }}
+                initial={{ opacity: 0, y: -40 }}
+                animate={{ opacity: 1, y: 0 }}
+                className={`relative touch-none rounded-lg ${startsSuitGroup(shownHand, i, handArrangement) ? 'ml-3 sm:ml-6' : ''} ${freshIds.has(card.id) ? 'ring-4 ring-emerald-400/70' : ''}`}
+              >
+                <PlayingCard 
+                  card={card} 
+                  isFaceUp={!needsHandoff}
+                  isPlayable={playableIds.has(card.id)}
+                  onClick={() => handlePlayerPlay(card)}
+                  tabIndex={needsHandoff ? undefined : i === Math.min(handFocus, shownHand.length - 1) ? 0 : -1}
+                  onFocus={() => setHandFocus(i)}
+                  ref={el => { cardRefs.current[i] = el; }}
+                />
+                {card.id === drawnCard?.id && (
+                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-2 py-0.5 bg-emerald-500 text-black text-[10px] font-bold rounded-full shadow-lg whitespace-nowrap pointer-events-none">
+                    {t('board.newCard')}
+                  </div>
+                )}
+                {card.id === hintCardId && card.id !== drawnCard?.id && canHint && (
+                  <div className="absolute -top-3 left-1/2 -translate-x-1/2 px-2 py-0.5 bg-amber-400 text-black text-[10px] font-bold rounded-full shadow-lg whitespace-nowrap pointer-events-none">
+                    {t('board.recommended')}
+                  </div>
+                )}
+              </motion.div>
             ))}
+            {needsHandoff && (
+              <button
+                onClick={() => setViewSeat(state.turn)}
+                className="absolute inset-0 m-auto h-fit w-fit px-6 py-3 bg-indigo-600 hover:bg-indigo-500 rounded-2xl font-bold shadow-xl transition-colors"
+              >
+                {t('board.handoff', { player: currentSeat.name })}
+              </button>
+            )}
           </div>
         </div>
       </main>
 
+      {state.status !== 'menu' && <MoveHistory events={state.log} />}
+
       {/* Status Bar */}
-      <footer className="p-4 bg-black/40 border-t border-white/10 backdrop-blur-md">
+      <footer className="relative p-4 bg-black/40 border-t border-white/10 backdrop-blur-md">
+        {tableTalkEnabled && state.status !== 'menu' && <ChatPanel messages={chat} />}
         <div className="max-w-6xl mx-auto flex items-center justify-between">
           <div className="flex items-center gap-3">
             <Info className="w-4 h-4 text-indigo-400" />
-            <p className="text-sm font-medium text-white/80 italic">{state.lastAction}</p>
+            <p className="text-sm font-medium text-white/80 italic">{formatMessage(state.lastAction)}</p>
+            <p role="status" aria-live="polite" className="sr-only">{announcement}</p>
           </div>
           <div className="hidden sm:flex items-center gap-4 text-xs font-mono opacity-40">
-            <span>回合: {state.turn === 'player' ? '玩家' : 'AI'}</span>
+            <span>{t('board.turn', { player: currentSeat?.name ?? '-' })}</span>
+            {activeMatch && dealer !== null && (
+              <>
+                <span>|</span>
+                <span>{t('board.dealer', { player: state.seats[dealer]?.name ?? '-' })}</span>
+              </>
+            )}
+            {state.seats.length > 2 && (
+              <>
+                <span>|</span>
+                <span>{t('board.direction', { direction: state.direction === 1 ? t('board.clockwise') : t('board.counterclockwise') })}</span>
+              </>
+            )}
             <span>|</span>
-            <span>状态: {state.status === 'playing' ? '进行中' : state.status === 'suit_selection' ? '选择花色' : '结束'}</span>
+            <span>{t('board.status', { status: t(state.status === 'playing' ? 'board.statusPlaying' : state.status === 'suit_selection' ? 'board.statusSuit' : 'board.statusOver') })}</span>
           </div>
         </div>
       </footer>
@@ -366,51 +832,306 @@ export default function App() {
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
-            className="fixed inset-0 z-[100] flex items-center justify-center bg-[#1a1c2c] p-4"
+            className="fixed inset-0 z-[100] flex items-center justify-center bg-[#1a1c2c] p-4 overflow-y-auto"
           >
-            <motion.div 
-              initial={{ scale: 0.9, opacity: 0 }}
-              animate={{ scale: 1, opacity: 1 }}
-              className="max-w-2xl w-full text-center"
-            >
+            <FocusTrap label={t('menu.label')} className="contents">
               <motion.div 
-                animate={{ y: [0, -10, 0] }}
-                transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
-                className="mb-8 flex justify-center gap-4"
+                initial={{ scale: 0.9, opacity: 0 }}
+                animate={{ scale: 1, opacity: 1 }}
+                className="max-w-2xl w-full text-center"
               >
-                <div className="rotate-[-10deg]"><PlayingCard card={{ id: '1', suit: 'hearts', rank: '8' }} /></div>
-                <div className="rotate-[5deg] translate-y-[-20px]"><PlayingCard card={{ id: '2', suit: 'spades', rank: 'A' }} /></div>
-                <div className="rotate-[15deg]"><PlayingCard card={{ id: '3', suit: 'diamonds', rank: 'K' }} /></div>
+                <motion.div 
+                  animate={{ y: [0, -10, 0] }}
+                  transition={{ duration: 4, repeat: Infinity, ease: "easeInOut" }}
+                  className="mb-8 flex justify-center gap-4"
+                >
+                  <div className="rotate-[-10deg]"><PlayingCard card={{ id: '1', suit: 'hearts', rank: '8' }} /></div>
+                  <div className="rotate-[5deg] translate-y-[-20px]"><PlayingCard card={{ id: '2', suit: 'spades', rank: 'A' }} /></div>
+                  <div className="rotate-[15deg]"><PlayingCard card={{ id: '3', suit: 'diamonds', rank: 'K' }} /></div>
+                  <div className="rotate-[-5deg] translate-y-[-10px]"><PlayingCard card={{ id: '4', suit: 'clubs', rank: 'Q' }} isFaceUp={false} /></div>
+                </motion.div>
+
+                <h1 className="text-6xl sm:text-8xl font-black mb-4 tracking-tighter bg-gradient-to-b from-white to-white/40 bg-clip-text text-transparent">
+                  {t('app.title')}
+                </h1>
+                <p className="text-indigo-300/60 text-lg mb-12 max-w-md mx-auto">
+                  {t('app.tagline')}
+                </p>
+
+                <div className="flex flex-col gap-4 max-w-xs mx-auto">
+                  <button
+                    onClick={() => setState(prev => ({ ...prev, status: 'waiting', seed: seedInput.trim() }))}
+                    className="py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-600/20 flex items-center justify-center gap-2 group text-xl"
+                  >
+                    {t('menu.start')}
+                    <ChevronRight className="w-6 h-6 group-hover:translate-x-1 transition-transform" />
+                  </button>
+
+                  {savedGame?.ok && (
+                    <button
+                      onClick={continueGame}
+                      className="py-3 bg-white/10 hover:bg-white/20 border border-white/10 rounded-2xl font-bold transition-colors flex items-center justify-center gap-2"
+                    >
+                      <Play className="w-5 h-5 text-indigo-400" />
+                      {t('menu.continue')}
+                      <span className="text-xs font-mono opacity-40">#{savedGame.state.seed}</span>
+                    </button>
+                  )}
+                  <button
+                    onClick={() => startTutorial(getResumeLesson(tutorialProgress))}
+                    className="py-3 bg-white/10 hover:bg-white/20 border border-white/10 rounded-2xl font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <GraduationCap className="w-5 h-5 text-amber-300" />
+                    {t('menu.tutorial')}
+                    <span className="text-xs font-mono opacity-40">{tutorialProgress.length}/{LESSONS.length}</span>
+                  </button>
+                  <button
+                    onClick={() => setShowPuzzles(true)}
+                    className="py-3 bg-white/10 hover:bg-white/20 border border-white/10 rounded-2xl font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <PuzzleIcon className="w-5 h-5 text-indigo-400" />
+                    {t('menu.puzzles')}
+                    <span className="text-xs font-mono opacity-40">{solvedPuzzles.length}/{PUZZLES.length}</span>
+                  </button>
+                  <button
+                    onClick={() => setShowLadder(true)}
+                    className="py-3 bg-white/10 hover:bg-white/20 border border-white/10 rounded-2xl font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Medal className="w-5 h-5 text-yellow-400" />
+                    {t('menu.ladder')}
+                    <span className="text-xs font-mono opacity-40">{ladder.playerRating}</span>
+                  </button>
+                  {savedGame && !savedGame.ok && (
+                    <div className="text-xs text-red-400">{formatMessage(savedGame.error)}</div>
+                  )}
+
+                  <div className="flex gap-2">
+                    <input
+                      value={seedInput}
+                      onChange={e => setSeedInput(e.target.value)}
+                      placeholder={t('menu.seedPlaceholder')}
+                      className="flex-1 min-w-0 px-4 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-mono placeholder:text-white/30 focus:outline-none focus:border-indigo-400"
+                    />
+                    <button
+                      onClick={() => setState(prev => ({ ...prev, status: 'waiting', seed: dailySeed() }))}
+                      className="px-4 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm font-bold transition-colors flex items-center gap-2"
+                    >
+                      <CalendarDays className="w-4 h-4 text-indigo-400" />
+                      {t('menu.daily')}
+                    </button>
+                  </div>
+                  <button
+                    onClick={() => setTableTalkEnabled(enabled => !enabled)}
+                    className={`py-2 rounded-xl text-xs font-bold border transition-colors flex items-center justify-center gap-2 ${tableTalkEnabled ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+                  >
+                    <MessageCircle className="w-4 h-4" />
+                    {tableTalkEnabled ? t('menu.tableTalkOn') : t('menu.tableTalkOff')}
+                  </button>
+                  <div className="grid grid-cols-3 gap-2">
+                    {[null, ...MATCH_TARGETS].map(target => (
+                      <button
+                        key={target ?? 'single'}
+                        onClick={() => setMatchTarget(target)}
+                        className={`py-2 rounded-xl text-xs font-bold border transition-colors ${matchTarget === target ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+                      >
+                        {target ? t('menu.matchTarget', { target }) : t('menu.single')}
+                      </button>
+                    ))}
+                  </div>
+                  <div role="group" aria-label={t('app.language')} className="grid grid-cols-2 gap-2">
+                    {LOCALES.map(option => (
+                      <button
+                        key={option}
+                        lang={option}
+                        onClick={() => switchLocale(option)}
+                        aria-pressed={locale === option}
+                        className={`py-2 rounded-xl text-xs font-bold border transition-colors ${locale === option ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+                      >
+                        {LOCALE_NAMES[option]}
+                      </button>
+                    ))}
+                  </div>
+                  <button
+                    onClick={() => setShowStats(true)}
+                    className="py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-xs font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <BarChart3 className="w-4 h-4 text-indigo-400" />
+                    {t('menu.stats')}
+                  </button>
+                  <label className="py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-xs font-bold transition-colors flex items-center justify-center gap-2 cursor-pointer">
+                    <Upload className="w-4 h-4 text-indigo-400" />
+                    {t('menu.importReplay')}
+                    <input
+                      type="file"
+                      accept="application/json,.json"
+                      className="hidden"
+                      onChange={e => {
+                        const file = e.target.files?.[0];
+                        e.target.value = '';
+                        if (file) importReplay(file);
+                      }}
+                    />
+                  </label>
+                  {importError && <div className="text-xs text-red-400">{formatMessage(importError)}</div>}
+
+                  {state.seed && (
+                    <button
+                      onClick={() => setSeedInput(state.seed)}
+                      className="text-xs font-mono text-white/40 hover:text-white/70 transition-colors"
+                    >
+                      {t('menu.lastSeed', { seed: state.seed })}
+                    </button>
+                  )}
+
+                  <OnlineLobby
+                    error={online.error}
+                    busy={online.phase === 'connecting'}
+                    onCreate={online.createRoom}
+                    onJoin={online.joinRoom}
+                  />
+
+                  <TableSetup
+                    seats={seatConfigs}
+                    onChange={setSeatConfigs}
+                    difficulty={difficulty}
+                    onDifficultyChange={setDifficulty}
+                  />
+                  <RuleSetPicker rules={rules} onChange={setRules} />
+                  <CardThemePicker />
+                  <PacingPicker />
+
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="p-4 bg-white/5 rounded-2xl border border-white/10">
+                      <div className="text-indigo-400 font-bold mb-1">{t('menu.rulesTitle')}</div>
+                      <div className="text-[10px] opacity-50 uppercase tracking-widest">{t('menu.rulesBody')}</div>
+                    </div>
+                    <div className="p-4 bg-white/5 rounded-2xl border border-white/10">
+                      <div className="text-indigo-400 font-bold mb-1">{t('menu.wildTitle')}</div>
+                      <div className="text-[10px] opacity-50 uppercase tracking-widest">{t('menu.wildBody', { rank: { rank: rules.wildRank } })}</div>
+                    </div>
+                  </div>
+                </div>
               </motion.div>
+            </FocusTrap>
+          </motion.div>
+        )}
+
+        {replayEvents && (
+          <ReplayViewer events={replayEvents} onClose={() => setReplayEvents(null)} />
+        )}
+
+        {review && (
+          <GameReview events={review.events} seats={review.seats} onClose={() => setReview(null)} />
+        )}
+
+        {showStandings && activeMatch && (
+          <MatchResults
+            match={activeMatch}
+            onNewMatch={() => {
+              setShowStandings(false);
+              initGame();
+            }}
+            onMenu={() => {
+              setShowStandings(false);
+              setMatch(null);
+              setState(prev => ({ ...prev, status: 'menu' }));
+            }}
+          />
+        )}
+
+        {lesson && (
+          <TutorialOverlay
+            key={tutorial.lesson}
+            lesson={tutorial.lesson}
+            lessonCount={LESSONS.length}
+            title={t(`lesson.${lesson.id}`)}
+            hint={lesson.getHint(localState)}
+            done={lessonDone}
+            blocked={tutorial.blocked}
+            onNext={() => (tutorial.lesson === LESSONS.length - 1 ? exitTutorial() : startTutorial(tutorial.lesson + 1))}
+            onExit={exitTutorial}
+          />
+        )}
+
+        {activePuzzle && (
+          <PuzzlePanel
+            title={activePuzzle.id ? t(`puzzle.${activePuzzle.id}`) : t('puzzle.custom')}
+            turns={activePuzzle.turns}
+            turnsUsed={puzzleTurns}
+            status={puzzleStatus}
+            onNext={nextPuzzle && (() => startPuzzle(nextPuzzle))}
+            onRetry={() => startPuzzle(activePuzzle)}
+            onExit={exitPuzzle}
+          />
+        )}
+
+        {violations.length > 0 && dismissedViolations !== localState && (
+          <InvariantOverlay state={localState} violations={violations} onDismiss={() => setDismissedViolations(localState)} />
+        )}
+
+        {showLadder && state.status === 'menu' && (
+          <LadderScreen
+            progress={ladder}
+            onChallenge={startLadderGame}
+            onClose={() => setShowLadder(false)}
+          />
+        )}
+
+        {showPuzzles && state.status === 'menu' && (
+          <PuzzleScreen
+            solved={solvedPuzzles}
+            rules={rules}
+            onPlay={startPuzzle}
+            onClose={() => setShowPuzzles(false)}
+          />
+        )}
 
-              <h1 className="text-6xl sm:text-8xl font-black mb-4 tracking-tighter bg-gradient-to-b from-white to-white/40 bg-clip-text text-transparent">
-                疯狂 8 点
-              </h1>
-              <p className="text-indigo-300/60 text-lg mb-12 max-w-md mx-auto">
-                经典的纸牌对战游戏。匹配花色或点数，利用万能的 8 点来改变局势！
-              </p>
+        {showStats && state.status === 'menu' && (
+          <StatsScreen
+            profile={profile}
+            onProfileChange={next => setProfile(saveProfile(next))}
+            onClose={() => setShowStats(false)}
+          />
+        )}
 
-              <div className="flex flex-col gap-4 max-w-xs mx-auto">
+        {(online.phase === 'connecting' || online.phase === 'waiting') && (
+          <motion.div
+            initial={{ opacity: 0 }}
+            animate={{ opacity: 1 }}
+            exit={{ opacity: 0 }}
+            className="fixed inset-0 z-[110] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+          >
+            <FocusTrap label={t('online.waitingLabel')} className="contents">
+              <div className="bg-[#2a2d3e] p-8 rounded-3xl border border-white/10 shadow-2xl max-w-sm w-full text-center">
+                {online.roomCode ? (
+                  <>
+                    <p className="text-white/60 mb-2">{t('online.shareCode')}</p>
+                    <div className="text-5xl font-black font-mono tracking-[0.3em] mb-6">{online.roomCode}</div>
+                    <p className="text-sm text-white/40 mb-6 animate-pulse">{t('online.waiting')}</p>
+                  </>
+                ) : (
+                  <p className="text-white/60 mb-6 animate-pulse">{t('online.connecting')}</p>
+                )}
                 <button
-                  onClick={() => setState(prev => ({ ...prev, status: 'waiting' }))}
-                  className="py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-2xl transition-all shadow-xl shadow-indigo-600/20 flex items-center justify-center gap-2 group text-xl"
+                  onClick={online.leave}
+                  className="w-full py-3 bg-white/10 hover:bg-white/20 rounded-xl font-bold transition-colors"
                 >
-                  开始游戏
-                  <ChevronRight className="w-6 h-6 group-hover:translate-x-1 transition-transform" />
+                  {t('online.cancel')}
                 </button>
-                
-                <div className="grid grid-cols-2 gap-4">
-                  <div className="p-4 bg-white/5 rounded-2xl border border-white/10">
-                    <div className="text-indigo-400 font-bold mb-1">规则</div>
-                    <div className="text-[10px] opacity-50 uppercase tracking-widest">匹配花色或点数</div>
-                  </div>
-                  <div className="p-4 bg-white/5 rounded-2xl border border-white/10">
-                    <div className="text-indigo-400 font-bold mb-1">万能牌</div>
-                    <div className="text-[10px] opacity-50 uppercase tracking-widest">8 可以改变花色</div>
-                  </div>
-                </div>
               </div>
-            </motion.div>
+            </FocusTrap>
+          </motion.div>
+        )}
+
+        {opponentOffline && state.status === 'playing' && (
+          <motion.div
+            initial={{ opacity: 0, y: -20 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="fixed top-20 left-1/2 -translate-x-1/2 z-40 flex items-center gap-2 px-4 py-2 bg-red-500/20 border border-red-400/30 rounded-full text-sm"
+          >
+            <WifiOff className="w-4 h-4 text-red-400" />
+            {t('board.opponentOffline')}
           </motion.div>
         )}
 
@@ -421,67 +1142,159 @@ export default function App() {
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
           >
-            <motion.div 
-              initial={{ scale: 0.9, y: 20 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-[#2a2d3e] p-8 rounded-3xl border border-white/10 shadow-2xl max-w-md w-full text-center"
-            >
-              <h2 className="text-2xl font-bold mb-2">疯狂 8 点！</h2>
-              <p className="text-white/60 mb-8">请选择新的花色</p>
+            <FocusTrap label={t('suitPicker.label')} className="contents">
+              <motion.div 
+                initial={{ scale: 0.9, y: 20 }}
+                animate={{ scale: 1, y: 0 }}
+                className="bg-[#2a2d3e] p-8 rounded-3xl border border-white/10 shadow-2xl max-w-md w-full text-center"
+              >
+                <h2 className="text-2xl font-bold mb-2">{t('suitPicker.title')}</h2>
+                <p className="text-white/60 mb-8">{t('suitPicker.prompt')}</p>
               
-              <div className="grid grid-cols-2 gap-4">
-                {(['hearts', 'diamonds', 'clubs', 'spades'] as Suit[]).map(suit => (
-                  <button
-                    key={suit}
-                    onClick={() => handleSuitSelect(suit)}
-                    className="flex flex-col items-center justify-center p-6 bg-white/5 hover:bg-white/10 border border-white/10 rounded-2xl transition-all group active:scale-95"
-                  >
-                    <span className={`text-4xl mb-2 group-hover:scale-125 transition-transform ${suit === 'hearts' || suit === 'diamonds' ? 'text-red-500' : 'text-white'}`}>
-                      {suit === 'hearts' ? '♥' : suit === 'diamonds' ? '♦' : suit === 'clubs' ? '♣' : '♠'}
-                    </span>
-                    <span className="text-xs font-bold uppercase tracking-widest opacity-60">{getSuitName(suit)}</span>
-                  </button>
-                ))}
-              </div>
-            </motion.div>
+                <div className="grid grid-cols-2 gap-4">
+                  {SUITS.map((suit, i) => (
+                    <button
+                      key={suit}
+                      onClick={() => handleSuitSelect(suit)}
+                      aria-keyshortcuts={String(i + 1)}
+                      className="relative flex flex-col items-center justify-center p-6 bg-white/5 hover:bg-white/10 border border-white/10 rounded-2xl transition-all group active:scale-95"
+                    >
+                      <span className={`${cardTheme.face === 'high_contrast' ? 'text-6xl' : 'text-4xl'} mb-2 group-hover:scale-125 transition-transform ${getSuitColor(suit, cardTheme.face, true)}`}>
+                        {SUIT_SYMBOLS[suit]}
+                      </span>
+                      <span className="text-xs font-bold uppercase tracking-widest opacity-60">{t(`suit.${suit}`)}</span>
+                      <kbd className="absolute top-2 right-3 text-[10px] font-mono text-white/30">{i + 1}</kbd>
+                    </button>
+                  ))}
+                </div>
+              </motion.div>
+            </FocusTrap>
           </motion.div>
         )}
 
-        {state.status === 'game_over' && (
+        {state.status === 'game_over' && !activePuzzle && (
           <motion.div 
             initial={{ opacity: 0 }}
             animate={{ opacity: 1 }}
             exit={{ opacity: 0 }}
             className="fixed inset-0 z-50 flex items-center justify-center bg-black/90 backdrop-blur-md p-4"
           >
-            <motion.div 
-              initial={{ scale: 0.9, y: 20 }}
-              animate={{ scale: 1, y: 0 }}
-              className="bg-[#2a2d3e] p-10 rounded-3xl border border-white/10 shadow-2xl max-w-md w-full text-center relative overflow-hidden"
-            >
-              <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
+            <FocusTrap label={t('gameOver.label')} className="contents">
+              <motion.div 
+                initial={{ scale: 0.9, y: 20 }}
+                animate={{ scale: 1, y: 0 }}
+                className="bg-[#2a2d3e] p-10 rounded-3xl border border-white/10 shadow-2xl max-w-md w-full text-center relative overflow-hidden"
+              >
+                <div className="absolute top-0 left-0 w-full h-1 bg-gradient-to-r from-indigo-500 via-purple-500 to-pink-500"></div>
               
-              <div className="mb-6 inline-flex p-4 bg-indigo-500/20 rounded-full">
-                <Trophy className={`w-12 h-12 ${state.winner === 'player' ? 'text-yellow-400' : 'text-gray-400'}`} />
-              </div>
+                <div className="mb-6 inline-flex p-4 bg-indigo-500/20 rounded-full">
+                  <Trophy className={`w-12 h-12 ${winnerSeat?.kind === 'human' ? 'text-yellow-400' : 'text-gray-400'}`} />
+                </div>
               
-              <h2 className="text-4xl font-black mb-2 uppercase tracking-tighter">
-                {state.winner === 'player' ? '胜利！' : '失败'}
-              </h2>
-              <p className="text-white/60 mb-8">
-                {state.winner === 'player' 
-                  ? "你清空了所有手牌。干得漂亮！" 
-                  : "这次 AI 更快。想再试一次吗？"}
-              </p>
+                <h2 className="text-4xl font-black mb-2 uppercase tracking-tighter">
+                  {isLoss ? t('gameOver.loss') : isOnline || state.winner === 0 ? t('gameOver.win') : t('gameOver.seatWon', { player: winnerSeat?.name })}
+                </h2>
+                <p className="text-white/60 mb-8">
+                  {isOnline || state.blocked
+                    ? formatMessage(state.lastAction)
+                    : !isLoss
+                      ? t('gameOver.winBody', { player: winnerSeat?.name })
+                      : t('gameOver.lossBody', { player: winnerSeat?.name })}
+                </p>
+
+                {state.blocked && (
+                  <div className="mb-8 flex flex-col gap-1 text-sm text-left">
+                    <div className="text-xs text-white/40 mb-1">{t('gameOver.tiebreak', { tiebreak: t(`tiebreak.${state.rules.blockedTiebreak as BlockedTiebreak}`) })}</div>
+                    {rankBlockedSeats(state).map(seat => (
+                      <div
+                        key={seat}
+                        className={`flex justify-between px-3 py-2 rounded-xl border ${seat === state.winner ? 'bg-indigo-500/20 border-indigo-400/40' : 'bg-white/5 border-white/10'}`}
+                      >
+                        <span className="font-bold">{state.seats[seat].name}</span>
+                        <span className="font-mono text-white/60">
+                          {t('gameOver.seatHand', { count: state.seats[seat].hand.length, points: getHandPoints(state.seats[seat].hand, state.rules) })}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
               
-              <button
-                onClick={initGame}
-                className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all shadow-lg shadow-indigo-600/20 flex items-center justify-center gap-2 group"
-              >
-                <RotateCcw className="w-5 h-5 group-hover:rotate-180 transition-transform duration-500" />
-                再玩一次
-              </button>
-            </motion.div>
+                {activeMatch && (
+                  <div className="mb-8 flex flex-col gap-1 text-sm text-left">
+                    <div className="text-xs text-white/40 mb-1">{t('gameOver.roundScores', { target: activeMatch.target })}</div>
+                    {state.seats.map((seat, i) => (
+                      <div
+                        key={i}
+                        className={`flex items-center gap-3 px-3 py-2 rounded-xl border ${i === state.winner ? 'bg-indigo-500/20 border-indigo-400/40' : 'bg-white/5 border-white/10'}`}
+                      >
+                        <span className="flex-1 font-bold">{seat.name}</span>
+                        <span className="text-xs text-white/40">{t('gameOver.pointsLeft', { points: getHandPoints(seat.hand, state.rules) })}</span>
+                        <span className="w-12 text-right font-mono text-indigo-300">+{scoreRound(state)[i]}</span>
+                        <span className="w-12 text-right font-mono font-bold">{activeMatch.scores[i]}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {ladderOpponent && isLadderGameRecorded(ladder, localState) && (
+                  <div className="mb-8 text-sm font-mono text-white/70">
+                    {t('gameOver.ladderRating', { rating: ladder.playerRating, change: `${ladder.lastChange >= 0 ? '+' : ''}${ladder.lastChange}` })}
+                  </div>
+                )}
+
+                {ladderOpponent ? (
+                  <button
+                    onClick={() => {
+                      setState(prev => ({ ...prev, status: 'menu' }));
+                      setShowLadder(true);
+                    }}
+                    className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all shadow-lg shadow-indigo-600/20 flex items-center justify-center gap-2 group"
+                  >
+                    <Medal className="w-5 h-5" />
+                    {t('gameOver.backToLadder')}
+                  </button>
+                ) : activeMatch ? (
+                  <button
+                    onClick={() => (matchWinner !== null ? setShowStandings(true) : nextRound())}
+                    className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all shadow-lg shadow-indigo-600/20 flex items-center justify-center gap-2 group"
+                  >
+                    {matchWinner !== null ? t('gameOver.standings') : t('gameOver.nextRound')}
+                    <ChevronRight className="w-5 h-5 group-hover:translate-x-1 transition-transform" />
+                  </button>
+                ) : isOnline && opponentOffline ? (
+                  <p className="py-4 text-sm text-white/60">{t('online.roomClosed')}</p>
+                ) : (
+                  <button
+                    onClick={() => (isOnline ? online.rematch() : initGame())}
+                    className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all shadow-lg shadow-indigo-600/20 flex items-center justify-center gap-2 group"
+                  >
+                    <RotateCcw className="w-5 h-5 group-hover:rotate-180 transition-transform duration-500" />
+                    {t('gameOver.playAgain')}
+                  </button>
+                )}
+                {state.log[0]?.type === 'deal' && state.log[0].seed && (
+                  <button
+                    onClick={() => setReplayEvents(state.log)}
+                    className="w-full mt-3 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <Film className="w-5 h-5 text-indigo-400" />
+                    {t('gameOver.replay')}
+                  </button>
+                )}
+                {state.log[0]?.type === 'deal' && state.log[0].seed && (
+                  <button
+                    onClick={() => setReview({
+                      events: state.log,
+                      seats: isOnline ? [viewSeat] : state.seats.flatMap((seat, i) => (seat.kind === 'human' ? [i] : [])),
+                    })}
+                    className="w-full mt-3 py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl font-bold transition-colors flex items-center justify-center gap-2"
+                  >
+                    <SearchCheck className="w-5 h-5 text-indigo-400" />
+                    {t('gameOver.review')}
+                  </button>
+                )}
+              </motion.div>
+            </FocusTrap>
           </motion.div>
         )}
       </AnimatePresence>
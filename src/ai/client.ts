@@ -0,0 +1,66 @@
+import { AIDifficulty, GameAction, GameEvent, GameState, MoveEvaluation, MoveReview, PersonalityId } from '../types';
+import { AITask, AITaskResult, runTask } from './tasks';
+import type { AIRequest, AIResponse } from './worker';
+
+interface PendingRequest {
+  resolve: (result: AITaskResult) => void;
+  reject: (error: Error) => void;
+}
+
+let worker: Worker | null = null;
+// Set once the worker failed to load or crashed; later tasks run on the main thread
+let workerFailed = false;
+let nextRequestId = 0;
+const pending = new Map<number, PendingRequest>();
+
+function failWorker(error: Error) {
+  worker?.terminate();
+  worker = null;
+  workerFailed = true;
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+}
+
+function getWorker(): Worker | null {
+  if (typeof Worker === 'undefined' || workerFailed) return null;
+  if (!worker) {
+    worker = new Worker(new URL('./worker.ts', import.meta.url), { type: 'module' });
+    worker.onmessage = (event: MessageEvent<AIResponse>) => {
+      const response = event.data;
+      const request = pending.get(response.id);
+      pending.delete(response.id);
+      if ('error' in response) request?.reject(new Error(response.error));
+      else request?.resolve(response.result);
+    };
+    worker.onerror = event => failWorker(new Error(event.message || 'AI worker failed'));
+    worker.onmessageerror = () => failWorker(new Error('AI worker sent an unreadable message'));
+  }
+  return worker;
+}
+
+// Runs a task in the Web Worker, falling back to the main thread where workers are unavailable.
+// The promise rejects when the task throws or the worker dies, so callers never wait forever.
+function requestTask(task: AITask): Promise<AITaskResult> {
+  const target = getWorker();
+  if (!target) return new Promise(resolve => resolve(runTask(task)));
+
+  return new Promise((resolve, reject) => {
+    const request = { ...task, id: nextRequestId++ } as AIRequest;
+    pending.set(request.id, { resolve, reject });
+    target.postMessage(request);
+  });
+}
+
+// A named personality plays its own style whatever the difficulty
+export function requestAiAction(difficulty: AIDifficulty, state: GameState, personality?: PersonalityId): Promise<GameAction> {
+  return requestTask({ type: 'choose', difficulty, personality, state }) as Promise<GameAction>;
+}
+
+// The legal moves of the player on turn, best first
+export function requestHint(state: GameState): Promise<MoveEvaluation[]> {
+  return requestTask({ type: 'hint', state }) as Promise<MoveEvaluation[]>;
+}
+
+export function requestReview(events: GameEvent[], seats: number[]): Promise<MoveReview[]> {
+  return requestTask({ type: 'review', events, seats }) as Promise<MoveReview[]>;
+}
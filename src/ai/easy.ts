@@ -0,0 +1,16 @@
+import { AIPlayer, GameAction } from '../types';
+import { getLegalActions } from '../engine/rules';
+import { RandomFn } from '../utils/random';
+
+// Picks any legal play at random and only draws when it has to.
+export function createEasyAI(random: RandomFn = Math.random): AIPlayer {
+  return {
+    difficulty: 'easy',
+    chooseAction: state => {
+      const actions = getLegalActions(state);
+      const plays = actions.filter(a => a.type === 'play' || a.type === 'choose_suit');
+      const pool: GameAction[] = plays.length > 0 ? plays : actions;
+      return pool[Math.floor(random() * pool.length)];
+    },
+  };
+}
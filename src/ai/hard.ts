@@ -0,0 +1,139 @@
+import { AIPlayer, Card, GameAction, GameState, MoveEvaluation, Suit } from '../types';
+import { applyAction, getHand, getLegalActions, getPlayableCards } from '../engine/rules';
+import { isWild } from '../engine/ruleset';
+import { SUITS, shuffle } from '../utils/deck';
+import { RandomFn } from '../utils/random';
+import { chooseNormalAction } from './normal';
+
+export interface HardAIOptions {
+  random?: RandomFn;
+  // Wall-clock budget for one decision; keep it well below the UI's AI delay
+  timeBudgetMs?: number;
+  maxRollouts?: number;
+}
+
+// Rollouts that run this long without a winner are scored on hand size instead
+const MAX_ROLLOUT_STEPS = 200;
+// An opponent this close to going out makes holding on to wilds pointless
+const DANGER_HAND_SIZE = 2;
+
+// Cards we have not seen: everything except our own hand and the discard pile. Jokers belong
+// to no suit.
+function countUnseenBySuit(state: GameState, seat: number): Record<Suit, number> {
+  const counts: Record<Suit, number> = { hearts: 0, diamonds: 0, clubs: 0, spades: 0 };
+  const count = (c: Card) => { if (c.suit !== null) counts[c.suit]++; };
+  state.deck.forEach(count);
+  state.seats.forEach((s, i) => { if (i !== seat) s.hand.forEach(count); });
+  return counts;
+}
+
+// Prefer suits we are long in and that are mostly used up on the discard pile.
+function rankSuits(state: GameState, seat: number, wild?: Card): Suit[] {
+  const unseen = countUnseenBySuit(state, seat);
+  const mine: Record<Suit, number> = { hearts: 0, diamonds: 0, clubs: 0, spades: 0 };
+  getHand(state, seat).forEach(c => { if (c.id !== wild?.id && !isWild(c, state.rules)) mine[c.suit]++; });
+  const score = (suit: Suit) => mine[suit] * 2 - unseen[suit] / 4;
+  return [...SUITS].sort((a, b) => score(b) - score(a));
+}
+
+// Save wilds unless nothing else fits or somebody is about to go out; only name promising suits.
+function getCandidates(state: GameState): GameAction[] {
+  const seat = state.turn;
+  if (state.status === 'suit_selection') {
+    return rankSuits(state, seat).slice(0, 2).map(suit => ({ type: 'choose_suit', suit }));
+  }
+
+  const playable = getPlayableCards(state);
+  const hand = getHand(state, seat);
+  const plainPlays = playable.filter(c => !isWild(c, state.rules));
+  const inDanger = state.seats.some((s, i) => i !== seat && s.hand.length <= DANGER_HAND_SIZE);
+
+  const candidates: GameAction[] = plainPlays.map(c => ({ type: 'play', cardId: c.id }));
+  if (plainPlays.length === 0 || inDanger) {
+    for (const wild of playable.filter(c => isWild(c, state.rules))) {
+      const suits = hand.length === 1 ? SUITS.slice(0, 1) : rankSuits(state, seat, wild).slice(0, 2);
+      suits.forEach(suit => candidates.push({ type: 'play', cardId: wild.id, suit }));
+    }
+  }
+  // A freshly drawn card may also be kept for later
+  if (state.drawnCardId) candidates.push({ type: 'keep' });
+  if (candidates.length > 0) return candidates;
+
+  return getLegalActions(state);
+}
+
+// Deal the cards we cannot see (opponents' hands and the stock) at random, keeping every pile's size.
+function determinize(state: GameState, seat: number, random: RandomFn): GameState {
+  const hidden = shuffle([
+    ...state.deck,
+    ...state.seats.flatMap((s, i) => (i === seat ? [] : s.hand)),
+  ], random);
+
+  let offset = 0;
+  const take = (count: number) => {
+    const cards = hidden.slice(offset, offset + count);
+    offset += count;
+    return cards;
+  };
+
+  const seats = state.seats.map((s, i) => (i === seat ? s : { ...s, hand: take(s.hand.length) }));
+  return {
+    ...state,
+    seats,
+    deck: take(state.deck.length),
+    // Future reshuffles are unknown as well
+    rngState: Math.floor(random() * 0xffffffff),
+    // Rollouts never read the history
+    log: [],
+  };
+}
+
+function rollout(state: GameState, seat: number): number {
+  let current = state;
+  for (let step = 0; step < MAX_ROLLOUT_STEPS && current.status !== 'game_over'; step++) {
+    const next = applyAction(current, chooseNormalAction(current));
+    if (next === current) break;
+    current = next;
+  }
+
+  if (current.status === 'game_over') return current.winner === seat ? 1 : 0;
+  const mine = getHand(current, seat).length;
+  return current.seats.every((s, i) => i === seat || s.hand.length > mine) ? 0.5 : 0;
+}
+
+// Determinized Monte Carlo: sample the hidden cards, try every move and play the game out with
+// the normal heuristic. Returns the moves best first, scored by how often they won.
+export function evaluateActions(
+  state: GameState,
+  actions: GameAction[],
+  { random = Math.random, timeBudgetMs = 400, maxRollouts = 3000 }: HardAIOptions = {},
+): MoveEvaluation[] {
+  const seat = state.turn;
+  const wins = actions.map(() => 0);
+  const visits = actions.map(() => 0);
+  const deadline = Date.now() + timeBudgetMs;
+
+  for (let n = 0; n < maxRollouts && Date.now() < deadline; n++) {
+    const i = n % actions.length;
+    const sampled = determinize(state, seat, random);
+    const afterMove = applyAction(sampled, actions[i]);
+    wins[i] += rollout(afterMove, seat);
+    visits[i]++;
+  }
+
+  // Stable sort, so ties keep the order the moves were given in
+  return actions
+    .map((action, i) => ({ action, score: wins[i] / Math.max(visits[i], 1) }))
+    .sort((a, b) => b.score - a.score);
+}
+
+export function createHardAI(options: HardAIOptions = {}): AIPlayer {
+  return {
+    difficulty: 'hard',
+    chooseAction: state => {
+      const candidates = getCandidates(state);
+      if (candidates.length === 1) return candidates[0];
+      return evaluateActions(state, candidates, options)[0].action;
+    },
+  };
+}
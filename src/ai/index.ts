@@ -0,0 +1,15 @@
+import { AIDifficulty, AIPlayer } from '../types';
+import { RandomFn } from '../utils/random';
+import { createEasyAI } from './easy';
+import { normalAI } from './normal';
+import { createHardAI } from './hard';
+
+export const AI_DIFFICULTIES: AIDifficulty[] = ['easy', 'normal', 'hard'];
+
+export function createAIPlayer(difficulty: AIDifficulty, random?: RandomFn): AIPlayer {
+  switch (difficulty) {
+    case 'easy': return createEasyAI(random);
+    case 'normal': return normalAI;
+    case 'hard': return createHardAI({ random });
+  }
+}
@@ -0,0 +1,36 @@
+import { AIPlayer, Card, GameAction, GameState, Suit } from '../types';
+import { getHand, getPlayableCards, isLegalAction } from '../engine/rules';
+import { isWild } from '../engine/ruleset';
+
+// Name the suit we hold the most of, ignoring the wild card being played and any jokers.
+export function pickSuit(hand: Card[], wild?: Card): Suit {
+  const suitCounts: Record<Suit, number> = { hearts: 0, diamonds: 0, clubs: 0, spades: 0 };
+  hand.forEach(c => { if (c.id !== wild?.id && c.suit !== null) suitCounts[c.suit]++; });
+  return (Object.keys(suitCounts) as Suit[]).reduce((a, b) => suitCounts[a] > suitCounts[b] ? a : b);
+}
+
+// Plays the first playable non-wild card (a freshly drawn one included), keeps wilds as a last
+// resort and draws when stuck, as far as the draw policy allows.
+export function chooseNormalAction(state: GameState): GameAction {
+  const hand = getHand(state, state.turn);
+
+  if (state.status === 'suit_selection') {
+    return { type: 'choose_suit', suit: pickSuit(hand) };
+  }
+
+  const playableCards = getPlayableCards(state);
+  if (playableCards.length > 0) {
+    const cardToPlay = playableCards.find(c => !isWild(c, state.rules)) || playableCards[0];
+    if (isWild(cardToPlay, state.rules)) {
+      return { type: 'play', cardId: cardToPlay.id, suit: pickSuit(hand, cardToPlay) };
+    }
+    return { type: 'play', cardId: cardToPlay.id };
+  }
+
+  return isLegalAction(state, { type: 'draw' }) ? { type: 'draw' } : { type: 'pass' };
+}
+
+export const normalAI: AIPlayer = {
+  difficulty: 'normal',
+  chooseAction: chooseNormalAction,
+};
@@ -0,0 +1,83 @@
+import { AIDifficulty, AIPlayer, Card, GameAction, GameState, PersonalityId } from '../types';
+import { getHand, getLegalActions, getPlayableCards, getTopCard, isLegalAction } from '../engine/rules';
+import { getCardPoints, isWild } from '../engine/ruleset';
+import { RandomFn } from '../utils/random';
+import { pickSuit } from './normal';
+
+// Named opponents with a playing style of their own. Each one scores its playable cards by a
+// few weights instead of following the plain first-fit of the normal AI.
+
+export interface PersonalityStyle {
+  // Keeps wild cards back until nothing else fits
+  hoardWilds: boolean;
+  // Weight for plays that change the suit to follow: rank matches into another suit and wilds
+  suitSwitching: number;
+  // Weight for getting rid of high-point cards first
+  highCardDumping: number;
+  // Chance of a careless random play
+  blunderRate: number;
+}
+
+export interface Personality {
+  id: PersonalityId;
+  name: string;
+  // Rough strength, shown on the ladder
+  difficulty: AIDifficulty;
+  // Rating the personality starts the ladder with
+  rating: number;
+  style: PersonalityStyle;
+}
+
+// Ladder order: each one beats the normal AI more often than the last, e.g.
+// `npm run simulate -- --games 20000 --ai mira,normal`
+export const PERSONALITIES: Personality[] = [
+  { id: 'pip', name: 'Pip', difficulty: 'easy', rating: 800, style: { hoardWilds: false, suitSwitching: 0, highCardDumping: 0, blunderRate: 0.8 } },
+  { id: 'mira', name: 'Mira', difficulty: 'easy', rating: 900, style: { hoardWilds: false, suitSwitching: 2, highCardDumping: 0.2, blunderRate: 0 } },
+  { id: 'rosa', name: 'Rosa', difficulty: 'normal', rating: 1000, style: { hoardWilds: true, suitSwitching: 0.5, highCardDumping: 0, blunderRate: 0.25 } },
+  { id: 'bruno', name: 'Bruno', difficulty: 'normal', rating: 1100, style: { hoardWilds: true, suitSwitching: 0, highCardDumping: 1, blunderRate: 0.1 } },
+  { id: 'vex', name: 'Vex', difficulty: 'normal', rating: 1200, style: { hoardWilds: true, suitSwitching: 1, highCardDumping: 0.5, blunderRate: 0 } },
+];
+
+export function getPersonality(id: PersonalityId): Personality {
+  return PERSONALITIES.find(p => p.id === id)!;
+}
+
+// Higher is better; ties go to the card held longest
+function scorePlay(state: GameState, card: Card, style: PersonalityStyle): number {
+  const top = getTopCard(state);
+  const suitToFollow = state.currentSuit ?? top?.suit;
+  const wild = isWild(card, state.rules);
+  const switches = wild || card.suit !== suitToFollow;
+  let score = style.highCardDumping * (wild ? 0 : getCardPoints(card, state.rules)) / 10;
+  if (switches) score += style.suitSwitching;
+  // A hoarder only lets go of a wild when nothing else fits
+  if (wild && style.hoardWilds) score -= 100;
+  return score;
+}
+
+export function createPersonalityAI(personality: Personality, random: RandomFn = Math.random): AIPlayer {
+  const { style } = personality;
+  return {
+    difficulty: personality.difficulty,
+    chooseAction: (state: GameState): GameAction => {
+      const hand = getHand(state, state.turn);
+      if (state.status === 'suit_selection') {
+        return { type: 'choose_suit', suit: pickSuit(hand) };
+      }
+
+      const playable = getPlayableCards(state);
+      if (playable.length > 0 && random() < style.blunderRate) {
+        const plays = getLegalActions(state).filter(a => a.type === 'play');
+        return plays[Math.floor(random() * plays.length)];
+      }
+      if (playable.length > 0) {
+        const best = playable.reduce((a, b) => (scorePlay(state, b, style) > scorePlay(state, a, style) ? b : a));
+        return isWild(best, state.rules)
+          ? { type: 'play', cardId: best.id, suit: pickSuit(hand, best) }
+          : { type: 'play', cardId: best.id };
+      }
+
+      return isLegalAction(state, { type: 'draw' }) ? { type: 'draw' } : { type: 'pass' };
+    },
+  };
+}
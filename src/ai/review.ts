@@ -0,0 +1,83 @@
+import { GameAction, GameEvent, GameState, MoveEvaluation, MoveReview } from '../types';
+import { getHand, getLegalActions, getPlayableCards } from '../engine/rules';
+import { isWild } from '../engine/ruleset';
+import { eventToAction, replayLog } from '../engine/log';
+import { createMessage, t } from '../i18n';
+import { HardAIOptions, evaluateActions } from './hard';
+
+// Hints and post-game review, both built on the hard AI's rollout evaluation.
+
+// A move this much less likely to win than the best one counts as a mistake
+const MISTAKE_MARGIN = 0.15;
+const REVIEW_OPTIONS: HardAIOptions = { timeBudgetMs: 150, maxRollouts: 800 };
+
+// A wild played without a suit matches the same wild with any suit named.
+function isSameAction(a: GameAction, b: GameAction): boolean {
+  if (a.type !== b.type) return false;
+  if (a.type === 'play' && b.type === 'play') return a.cardId === b.cardId && (!a.suit || !b.suit || a.suit === b.suit);
+  if (a.type === 'choose_suit' && b.type === 'choose_suit') return a.suit === b.suit;
+  return true;
+}
+
+export function describeAction(state: GameState, action: GameAction): string {
+  switch (action.type) {
+    case 'play': {
+      const card = getHand(state, state.turn).find(c => c.id === action.cardId);
+      if (!card) return t('move.playUnknown');
+      return action.suit
+        ? t('move.playWild', { card: { card }, suit: { suit: action.suit } })
+        : t('move.play', { card: { card } });
+    }
+    case 'choose_suit': return t('move.chooseSuit', { suit: { suit: action.suit } });
+    case 'draw': return state.pendingDraw > 0 ? t('move.drawPenalty', { count: state.pendingDraw }) : t('move.draw');
+    case 'keep': return t('move.keep');
+    case 'pass': return t('move.pass');
+  }
+}
+
+// Every legal move for the player on turn, best first.
+export function rankMoves(state: GameState, options?: HardAIOptions): MoveEvaluation[] {
+  return evaluateActions(state, getLegalActions(state), options);
+}
+
+// The moves `seats` made with more than one option, as (state before, action) pairs. A wild
+// played without a suit is merged with the suit chosen right after it.
+function getDecisions(events: GameEvent[], seats: number[]) {
+  const states = replayLog(events);
+  const decisions: { index: number; state: GameState; action: GameAction }[] = [];
+  events.forEach((event, index) => {
+    const state = states[index - 1];
+    const action = eventToAction(event);
+    if (!state || !action || event.type === 'choose_suit' || state.status !== 'playing') return;
+    if (!seats.includes(state.turn) || getLegalActions(state).length < 2) return;
+
+    const following = events[index + 1];
+    const merged = action.type === 'play' && !action.suit && following?.type === 'choose_suit'
+      ? { ...action, suit: following.suit }
+      : action;
+    decisions.push({ index, state, action: merged });
+  });
+  return decisions;
+}
+
+export function reviewGame(events: GameEvent[], seats: number[], options: HardAIOptions = REVIEW_OPTIONS): MoveReview[] {
+  return getDecisions(events, seats).map(({ index, state, action }) => {
+    const ranked = rankMoves(state, options);
+    const best = ranked[0];
+    const playedScore = ranked.find(e => isSameAction(e.action, action))?.score ?? 0;
+
+    const card = action.type === 'play' ? getHand(state, state.turn).find(c => c.id === action.cardId) : undefined;
+    const wastedWild = card && isWild(card, state.rules) && getPlayableCards(state).some(c => !isWild(c, state.rules));
+
+    return {
+      index,
+      seat: state.turn,
+      played: action,
+      playedScore,
+      best: best.action,
+      bestScore: best.score,
+      mistake: best.score - playedScore >= MISTAKE_MARGIN,
+      note: wastedWild ? createMessage('review.wastedWild', { rank: { rank: state.rules.wildRank } }) : undefined,
+    };
+  });
+}
@@ -0,0 +1,23 @@
+import { AIDifficulty, GameAction, GameEvent, GameState, MoveEvaluation, MoveReview, PersonalityId } from '../types';
+import { createAIPlayer } from './index';
+import { createPersonalityAI, getPersonality } from './personalities';
+import { rankMoves, reviewGame } from './review';
+
+// Work the AI worker can be asked to do; the client runs the same tasks inline as a fallback.
+export type AITask =
+  | { type: 'choose'; difficulty: AIDifficulty; personality?: PersonalityId; state: GameState }
+  | { type: 'hint'; state: GameState }
+  | { type: 'review'; events: GameEvent[]; seats: number[] };
+
+export type AITaskResult = GameAction | MoveEvaluation[] | MoveReview[];
+
+export function runTask(task: AITask): AITaskResult {
+  switch (task.type) {
+    case 'choose': {
+      const player = task.personality ? createPersonalityAI(getPersonality(task.personality)) : createAIPlayer(task.difficulty);
+      return player.chooseAction(task.state);
+    }
+    case 'hint': return rankMoves(task.state);
+    case 'review': return reviewGame(task.events, task.seats);
+  }
+}
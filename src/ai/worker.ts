@@ -0,0 +1,20 @@
+import { AITask, AITaskResult, runTask } from './tasks';
+
+export type AIRequest = AITask & { id: number };
+
+// `error` instead of a result when the task threw
+export type AIResponse =
+  | { id: number; result: AITaskResult }
+  | { id: number; error: string };
+
+// Runs AI searches off the main thread so the board keeps animating while the hard AI thinks.
+self.onmessage = (event: MessageEvent<AIRequest>) => {
+  const { id, ...task } = event.data;
+  let response: AIResponse;
+  try {
+    response = { id, result: runTask(task) };
+  } catch (error) {
+    response = { id, error: String(error) };
+  }
+  self.postMessage(response);
+};
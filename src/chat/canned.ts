@@ -0,0 +1,44 @@
+import { TableEvent, TableEventType, TableTalkAdapter } from '../types';
+import { t } from '../i18n';
+import { hashSeed } from '../utils/random';
+
+type Line = (event: TableEvent, self: boolean) => string;
+
+// Lines spoken by the AI that caused the event (self) or reacting to somebody else.
+const LINES: Record<TableEventType, Line[]> = {
+  ai_play: [
+    () => t('chat.play.pick'),
+    e => (e.handSize <= 2 ? t('chat.play.fewLeft', { count: e.handSize }) : t('chat.play.keepUp')),
+    e => (e.card ? t('chat.play.steady', { rank: { rank: e.card.rank } }) : t('chat.play.pick')),
+    () => t('chat.play.nice'),
+  ],
+  ai_draw: [
+    () => t('chat.draw.again'),
+    () => t('chat.draw.unlucky'),
+    () => t('chat.draw.later'),
+  ],
+  wild: [
+    (e, self) => (self ? t('chat.wild.selfSwitch', { suit: { suit: e.suit! } }) : t('chat.wild.otherSwitch', { suit: { suit: e.suit! } })),
+    (e, self) => (self ? t('chat.wild.selfTiming') : t('chat.wild.otherPatient')),
+    (e, self) => (self ? t('chat.wild.selfLike', { suit: { suit: e.suit! } }) : t('chat.wild.otherFine')),
+  ],
+  win: [
+    (e, self) => (self ? t('chat.win.self') : t('chat.win.other', { player: e.seatName })),
+    (e, self) => (self ? t('chat.win.selfModest') : t('chat.win.otherSad')),
+  ],
+};
+
+// Deterministic table talk for offline play and tests: the same event always gets the same line.
+export function createCannedTableTalk(): TableTalkAdapter {
+  return {
+    reply: async (event, speaker) => {
+      const self = speaker === event.seatName;
+      // Plain moves are only commented on now and then
+      if (event.type === 'ai_play' || event.type === 'ai_draw') {
+        if (hashSeed(`${event.sequence}:${speaker}:chatty`) % 3 !== 0) return null;
+      }
+      const lines = LINES[event.type];
+      return lines[hashSeed(`${event.type}:${event.sequence}:${speaker}`) % lines.length](event, self);
+    },
+  };
+}
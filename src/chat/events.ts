@@ -0,0 +1,34 @@
+import { GameState, TableEvent } from '../types';
+import { getHand, getTopCard } from '../engine/rules';
+
+// Works out what just happened between two consecutive states, if it is worth talking about.
+export function detectTableEvent(prev: GameState, next: GameState, sequence: number): TableEvent | null {
+  const seat = prev.turn;
+  const base = { seat, seatName: prev.seats[seat]?.name ?? '', handSize: next.seats[seat]?.hand.length ?? 0, sequence };
+
+  if (next.status === 'game_over' && prev.status !== 'game_over' && next.winner !== null) {
+    return { ...base, type: 'win', seat: next.winner, seatName: next.seats[next.winner].name, handSize: 0 };
+  }
+
+  const top = getTopCard(next);
+  const played = !!top && top.id !== getTopCard(prev)?.id;
+  // A wild resolves when its suit is named, either together with the play or from the suit picker
+  if (top && next.currentSuit && next.status === 'playing' && (played || prev.status === 'suit_selection')) {
+    return { ...base, type: 'wild', card: top, suit: next.currentSuit };
+  }
+
+  if (prev.seats[seat]?.kind !== 'ai') return null;
+  if (played) {
+    return { ...base, type: 'ai_play', card: top };
+  }
+  if (getHand(next, seat).length > getHand(prev, seat).length) {
+    return { ...base, type: 'ai_draw' };
+  }
+  return null;
+}
+
+// The AI that made the move talks about it; anything a human did gets a reaction from the first AI.
+export function pickSpeaker(state: GameState, event: TableEvent): string | null {
+  if (state.seats[event.seat]?.kind === 'ai') return state.seats[event.seat].name;
+  return state.seats.find(seat => seat.kind === 'ai')?.name ?? null;
+}
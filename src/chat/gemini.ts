@@ -0,0 +1,39 @@
+import { GoogleGenAI } from '@google/genai';
+import { TableEvent, TableTalkAdapter } from '../types';
+import { getCardName, getSuitName, t } from '../i18n';
+
+const MODEL = 'gemini-2.5-flash';
+
+const PERSONA = '你是纸牌游戏"疯狂 8 点"里的一位电脑对手，性格俏皮、爱开玩笑、有点好胜。';
+
+function describeEvent(event: TableEvent, speaker: string): string {
+  const who = event.seatName === speaker ? '你' : event.seatName;
+  const card = event.card ? getCardName(event.card) : '';
+  switch (event.type) {
+    case 'ai_play': return `${who}刚打出了 ${card}，手里还剩 ${event.handSize} 张牌。`;
+    case 'ai_draw': return `${who}没有能出的牌，只好摸了一张，现在有 ${event.handSize} 张。`;
+    case 'wild': return `${who}打出了万能牌 ${card}，把花色换成了${getSuitName(event.suit!)}。`;
+    case 'win': return `${who}出完了所有手牌，赢下了这一局。`;
+  }
+}
+
+// Table talk written by Gemini. Any failure falls back to the given adapter so a flaky
+// network never interrupts the game.
+export function createGeminiTableTalk(apiKey: string, fallback: TableTalkAdapter): TableTalkAdapter {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    reply: async (event, speaker) => {
+      try {
+        const response = await ai.models.generateContent({
+          model: MODEL,
+          contents: `${PERSONA}你的名字是"${speaker}"。${describeEvent(event, speaker)}请用${t('chat.replyLanguage')}说一句不超过 20 个字（词）的俏皮话，只输出这句话。`,
+          config: { temperature: 0.9, maxOutputTokens: 60, thinkingConfig: { thinkingBudget: 0 } },
+        });
+        return response.text?.trim() || null;
+      } catch {
+        return fallback.reply(event, speaker);
+      }
+    },
+  };
+}
@@ -0,0 +1,10 @@
+import { TableTalkAdapter } from '../types';
+import { createCannedTableTalk } from './canned';
+import { createGeminiTableTalk } from './gemini';
+
+// Uses Gemini when a real key is configured and the canned lines otherwise.
+export function createTableTalk(apiKey: string | undefined = process.env.GEMINI_API_KEY): TableTalkAdapter {
+  const canned = createCannedTableTalk();
+  if (!apiKey || apiKey === 'MY_GEMINI_API_KEY') return canned;
+  return createGeminiTableTalk(apiKey, canned);
+}
@@ -0,0 +1,53 @@
+import React from 'react';
+import { CARD_BACKS, CARD_FACES, CARD_SIZES, CardBack, CardTheme, setCardTheme } from '../theme';
+import { useCardTheme } from '../theme/useCardTheme';
+import { t } from '../i18n';
+
+// Colour chip shown next to each card-back name
+const BACK_SWATCHES: Record<CardBack, string> = {
+  indigo: 'bg-indigo-800',
+  crimson: 'bg-rose-800',
+  lattice: 'bg-emerald-800',
+  midnight: 'bg-slate-900 border border-amber-400/60',
+};
+
+const optionClass = (selected: boolean) =>
+  `py-2 rounded-xl text-xs font-bold border transition-colors ${selected ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`;
+
+export const CardThemePicker: React.FC = () => {
+  const theme = useCardTheme();
+  const update = (change: Partial<CardTheme>) => setCardTheme({ ...theme, ...change });
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/10 text-left">
+      <div className="text-indigo-400 font-bold mb-3 text-sm">{t('theme.title')}</div>
+      <div role="group" aria-label={t('theme.face')} className="grid grid-cols-3 gap-2 mb-2">
+        {CARD_FACES.map(face => (
+          <button key={face} onClick={() => update({ face })} aria-pressed={theme.face === face} className={optionClass(theme.face === face)}>
+            {t(`cardFace.${face}`)}
+          </button>
+        ))}
+      </div>
+      <div role="group" aria-label={t('theme.back')} className="grid grid-cols-4 gap-2 mb-2">
+        {CARD_BACKS.map(back => (
+          <button
+            key={back}
+            onClick={() => update({ back })}
+            aria-pressed={theme.back === back}
+            className={`${optionClass(theme.back === back)} flex items-center justify-center gap-1`}
+          >
+            <span className={`w-2.5 h-3.5 rounded-sm ${BACK_SWATCHES[back]}`}></span>
+            {t(`cardBack.${back}`)}
+          </button>
+        ))}
+      </div>
+      <div role="group" aria-label={t('theme.size')} className="grid grid-cols-2 gap-2">
+        {CARD_SIZES.map(size => (
+          <button key={size} onClick={() => update({ size })} aria-pressed={theme.size === size} className={optionClass(theme.size === size)}>
+            {t(`cardSize.${size}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
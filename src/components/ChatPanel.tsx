@@ -0,0 +1,39 @@
+
+import React from 'react';
+import { motion, AnimatePresence } from 'motion/react';
+import { MessageCircle } from 'lucide-react';
+import { ChatMessage } from '../types';
+import { t } from '../i18n';
+
+interface ChatPanelProps {
+  messages: ChatMessage[];
+  // Number of most recent lines kept on screen
+  visible?: number;
+}
+
+export const ChatPanel: React.FC<ChatPanelProps> = ({ messages, visible = 3 }) => {
+  if (messages.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full right-4 mb-3 w-72 max-w-[calc(100vw-2rem)] flex flex-col gap-2 pointer-events-none">
+      <AnimatePresence initial={false}>
+        {messages.slice(-visible).map(message => (
+          <motion.div
+            key={message.id}
+            layout
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0 }}
+            className="flex items-start gap-2 px-3 py-2 bg-black/60 backdrop-blur-md rounded-2xl border border-white/10 shadow-lg"
+          >
+            <MessageCircle className="w-4 h-4 mt-0.5 text-indigo-400 shrink-0" />
+            <p className="text-xs leading-snug">
+              <span className="font-bold text-indigo-300">{message.speaker}{t('chat.separator')}</span>
+              <span className="text-white/80">{message.text}</span>
+            </p>
+          </motion.div>
+        ))}
+      </AnimatePresence>
+    </div>
+  );
+};
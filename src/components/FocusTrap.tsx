@@ -0,0 +1,44 @@
+import React, { useEffect, useRef } from 'react';
+
+interface FocusTrapProps {
+  // Accessible name of the dialog
+  label: string;
+  className?: string;
+  children: React.ReactNode;
+}
+
+const FOCUSABLE = 'button:not([disabled]), [href], input:not([disabled]), select:not([disabled]), textarea:not([disabled]), [tabindex]:not([tabindex="-1"])';
+
+// Modal dialog wrapper: moves focus inside on open, keeps Tab cycling within it and hands focus
+// back to whatever had it before once the dialog closes.
+export const FocusTrap: React.FC<FocusTrapProps> = ({ label, className = '', children }) => {
+  const ref = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    const previous = document.activeElement as HTMLElement | null;
+    const first = ref.current?.querySelector<HTMLElement>(FOCUSABLE);
+    (first ?? ref.current)?.focus();
+    return () => previous?.focus?.();
+  }, []);
+
+  const handleKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key !== 'Tab' || !ref.current) return;
+    const focusable = Array.from<HTMLElement>(ref.current.querySelectorAll<HTMLElement>(FOCUSABLE));
+    if (focusable.length === 0) return;
+    const first = focusable[0];
+    const last = focusable[focusable.length - 1];
+    if (e.shiftKey && (document.activeElement === first || document.activeElement === ref.current)) {
+      e.preventDefault();
+      last.focus();
+    } else if (!e.shiftKey && document.activeElement === last) {
+      e.preventDefault();
+      first.focus();
+    }
+  };
+
+  return (
+    <div ref={ref} role="dialog" aria-modal="true" aria-label={label} tabIndex={-1} onKeyDown={handleKeyDown} className={`outline-none ${className}`}>
+      {children}
+    </div>
+  );
+};
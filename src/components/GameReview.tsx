@@ -0,0 +1,94 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { AlertTriangle, Check, X } from 'lucide-react';
+import { GameEvent, MoveReview } from '../types';
+import { replayLog } from '../engine/log';
+import { describeAction } from '../ai/review';
+import { requestReview } from '../ai/client';
+import { formatMessage, t } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface GameReviewProps {
+  events: GameEvent[];
+  // Seats whose moves are reviewed
+  seats: number[];
+  onClose: () => void;
+}
+
+const percent = (score: number) => `${Math.round(score * 100)}%`;
+
+export const GameReview: React.FC<GameReviewProps> = ({ events, seats, onClose }) => {
+  const states = useMemo(() => replayLog(events), [events]);
+  const [reviews, setReviews] = useState<MoveReview[] | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    requestReview(events, seats)
+      .then(result => !cancelled && setReviews(result))
+      .catch(() => !cancelled && setFailed(true));
+    return () => {
+      cancelled = true;
+    };
+  }, [events, seats]);
+
+  const mistakes = reviews?.filter(r => r.mistake).length ?? 0;
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4"
+    >
+      <FocusTrap label={t('review.title')} className="contents">
+        <div className="bg-[#2a2d3e] p-6 rounded-3xl border border-white/10 shadow-2xl max-w-lg w-full max-h-[85vh] flex flex-col">
+          <div className="flex items-center justify-between mb-4">
+            <h2 className="text-xl font-bold">{t('review.title')}</h2>
+            <button onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          {failed ? (
+            <p className="text-white/60 py-8 text-center">{t('review.failed')}</p>
+          ) : !reviews ? (
+            <p className="text-white/60 animate-pulse py-8 text-center">{t('review.analyzing')}</p>
+          ) : (
+            <>
+              <p className="text-sm text-white/60 mb-4">
+                {t('review.summary', { count: reviews.length, mistakes })}
+              </p>
+              <ol className="flex-1 overflow-y-auto flex flex-col gap-2 text-xs">
+                {reviews.map(review => {
+                  const before = states[review.index - 1];
+                  return (
+                    <li
+                      key={review.index}
+                      className={`px-3 py-2 rounded-xl border ${review.mistake ? 'bg-red-500/10 border-red-400/30' : 'bg-white/5 border-white/10'}`}
+                    >
+                      <div className="flex items-center gap-2">
+                        {review.mistake
+                          ? <AlertTriangle className="w-4 h-4 text-red-400 shrink-0" />
+                          : <Check className="w-4 h-4 text-green-400 shrink-0" />}
+                        <span className="font-mono text-white/30">#{review.index}</span>
+                        <span className="flex-1">{t('review.move', { player: before.seats[review.seat].name, move: describeAction(before, review.played) })}</span>
+                        <span className="font-mono text-white/50">{percent(review.playedScore)}</span>
+                      </div>
+                      {review.mistake && (
+                        <div className="mt-1 pl-6 text-white/60">
+                          {t('review.better', { move: describeAction(before, review.best), percent: percent(review.bestScore) })}
+                        </div>
+                      )}
+                      {review.note && <div className="mt-1 pl-6 text-amber-300/80">{formatMessage(review.note)}</div>}
+                    </li>
+                  );
+                })}
+              </ol>
+            </>
+          )}
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
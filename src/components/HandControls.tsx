@@ -0,0 +1,35 @@
+import React from 'react';
+import { ArrowDownUp } from 'lucide-react';
+import { HAND_SORTS, HandSort, setHandArrangement } from '../hand';
+import { useHandArrangement } from '../hand/useHandArrangement';
+import { t } from '../i18n';
+
+// Sort mode and suit grouping for the hand, shown next to the hand's title
+export const HandControls: React.FC = () => {
+  const arrangement = useHandArrangement();
+
+  return (
+    <div className="ml-2 flex items-center gap-1 text-xs">
+      <label className="flex items-center gap-1 px-2 py-1 bg-white/5 rounded-full border border-white/10">
+        <ArrowDownUp className="w-3 h-3 text-indigo-400" />
+        <span className="sr-only">{t('hand.sort')}</span>
+        <select
+          value={arrangement.sort}
+          onChange={e => setHandArrangement({ ...arrangement, sort: e.target.value as HandSort })}
+          className="bg-transparent font-bold focus:outline-none"
+        >
+          {HAND_SORTS.map(sort => (
+            <option key={sort} value={sort} className="bg-[#2a2d3e]">{t(`handSort.${sort}`)}</option>
+          ))}
+        </select>
+      </label>
+      <button
+        onClick={() => setHandArrangement({ ...arrangement, groupBySuit: !arrangement.groupBySuit })}
+        aria-pressed={arrangement.groupBySuit}
+        className={`px-3 py-1 rounded-full font-bold border transition-colors ${arrangement.groupBySuit ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+      >
+        {t('hand.group')}
+      </button>
+    </div>
+  );
+};
@@ -0,0 +1,56 @@
+import React from 'react';
+import { Bug, Download, X } from 'lucide-react';
+import { GameState, Message } from '../types';
+import { serializePosition } from '../engine/position';
+import { formatMessage, t } from '../i18n';
+
+interface InvariantOverlayProps {
+  state: GameState;
+  violations: Message[];
+  onDismiss: () => void;
+}
+
+// Everything needed to reproduce the bug: the broken table, the log that led to it and, when
+// the cards still add up, the position to paste into a custom puzzle.
+function downloadState(state: GameState, violations: Message[]) {
+  let position: string | null = null;
+  try {
+    position = serializePosition(state);
+  } catch {
+    // Cards lost or duplicated; the full state below still has them
+  }
+  const dump = { violations: violations.map(v => formatMessage(v)), position, state };
+  const url = URL.createObjectURL(new Blob([JSON.stringify(dump, null, 2)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `crazy8-state-${state.seed || 'game'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Development-only report of a table the engine should never have produced. It stays out of
+// the way of the board so the game can still be inspected.
+export const InvariantOverlay: React.FC<InvariantOverlayProps> = ({ state, violations, onDismiss }) => (
+  <div role="alert" className="fixed z-[200] bottom-4 left-4 w-[calc(100%-2rem)] max-w-md p-4 bg-red-950/95 rounded-2xl border border-red-400/60 shadow-2xl text-left">
+    <div className="flex items-center gap-2 mb-2">
+      <Bug className="w-5 h-5 text-red-300" />
+      <span className="font-bold text-sm text-red-200">{t('invariant.title')}</span>
+      <button onClick={onDismiss} aria-label={t('invariant.dismiss')} className="ml-auto p-1 hover:bg-white/10 rounded-full transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <p className="text-xs text-white/60 mb-2">{t('invariant.body')}</p>
+    <ul className="mb-3 max-h-40 overflow-y-auto text-xs font-mono text-red-200 list-disc list-inside">
+      {violations.map((violation, i) => (
+        <li key={i}>{formatMessage(violation)}</li>
+      ))}
+    </ul>
+    <button
+      onClick={() => downloadState(state, violations)}
+      className="w-full py-2 bg-red-500/30 hover:bg-red-500/50 border border-red-400/40 rounded-xl text-xs font-bold transition-colors flex items-center justify-center gap-2"
+    >
+      <Download className="w-4 h-4" />
+      {t('invariant.dump')}
+    </button>
+  </div>
+);
@@ -0,0 +1,78 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Check, Lock, Medal, X } from 'lucide-react';
+import { PERSONALITIES, Personality } from '../ai/personalities';
+import { LadderProgress, isRungOpen } from '../ladder';
+import { t } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface LadderScreenProps {
+  progress: LadderProgress;
+  onChallenge: (opponent: Personality) => void;
+  onClose: () => void;
+}
+
+export const LadderScreen: React.FC<LadderScreenProps> = ({ progress, onChallenge, onClose }) => (
+  <motion.div
+    initial={{ opacity: 0 }}
+    animate={{ opacity: 1 }}
+    exit={{ opacity: 0 }}
+    className="fixed inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto"
+  >
+    <FocusTrap label={t('ladder.title')} className="contents">
+      <div className="bg-[#2a2d3e] p-6 rounded-3xl border border-white/10 shadow-2xl max-w-lg w-full">
+        <div className="flex items-center justify-between mb-2">
+          <div className="flex items-center gap-2 text-xl font-bold">
+            <Medal className="w-5 h-5 text-yellow-400" />
+            {t('ladder.title')}
+          </div>
+          <button onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+            <X className="w-5 h-5" />
+          </button>
+        </div>
+        <p className="text-sm text-white/60 mb-4">{t('ladder.intro')}</p>
+
+        <div className="flex items-center gap-3 mb-4 px-4 py-3 bg-indigo-500/20 border border-indigo-400/40 rounded-2xl">
+          <span className="flex-1 font-bold">{t('ladder.you')}</span>
+          <span className="text-xs text-white/50">{t('ladder.games', { count: progress.games })}</span>
+          <span className="font-mono font-bold">{progress.playerRating}</span>
+        </div>
+
+        {/* Strongest on top, like a ladder */}
+        <div className="flex flex-col gap-2">
+          {PERSONALITIES.map((opponent, rung) => ({ opponent, rung })).reverse().map(({ opponent, rung }) => {
+            const open = isRungOpen(progress, rung);
+            const beaten = rung < progress.beaten;
+            return (
+              <div
+                key={opponent.id}
+                className={`flex items-center gap-3 px-3 py-2 rounded-xl border text-sm ${rung === progress.beaten ? 'bg-white/10 border-yellow-400/40' : 'bg-white/5 border-white/10'} ${open ? '' : 'opacity-50'}`}
+              >
+                <span className="font-mono text-white/40">{rung + 1}</span>
+                <div className="flex-1 min-w-0">
+                  <div className="font-bold">
+                    {opponent.name}
+                    <span className="ml-2 text-[10px] font-normal uppercase tracking-widest text-white/40">{t(`difficulty.${opponent.difficulty}`)}</span>
+                  </div>
+                  <div className="text-xs text-white/50">{t(`personality.${opponent.id}`)}</div>
+                </div>
+                <span className="font-mono text-white/70">{progress.ratings[opponent.id]}</span>
+                {beaten && <Check aria-label={t('ladder.beaten')} className="w-4 h-4 text-green-400" />}
+                {open ? (
+                  <button
+                    onClick={() => onChallenge(opponent)}
+                    className="px-3 py-1 bg-indigo-600 hover:bg-indigo-500 rounded-full text-xs font-bold transition-colors"
+                  >
+                    {t('ladder.challenge')}
+                  </button>
+                ) : (
+                  <Lock aria-label={t('ladder.locked')} className="w-4 h-4 text-white/40" />
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </FocusTrap>
+  </motion.div>
+);
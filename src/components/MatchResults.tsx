@@ -0,0 +1,92 @@
+import React from 'react';
+import { motion } from 'motion/react';
+import { Crown, RotateCcw } from 'lucide-react';
+import { MatchState } from '../types';
+import { getStandings } from '../engine/match';
+import { t } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface MatchResultsProps {
+  match: MatchState;
+  onNewMatch: () => void;
+  onMenu: () => void;
+}
+
+export const MatchResults: React.FC<MatchResultsProps> = ({ match, onNewMatch, onMenu }) => {
+  const standings = getStandings(match);
+  const champion = match.seats[standings[0]];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[60] flex items-center justify-center bg-[#1a1c2c] p-4 overflow-y-auto"
+    >
+      <FocusTrap label={t('match.label')} className="contents">
+        <div className="max-w-lg w-full text-center">
+          <div className="mb-4 inline-flex p-4 bg-yellow-400/20 rounded-full">
+            <Crown className="w-12 h-12 text-yellow-400" />
+          </div>
+          <h2 className="text-4xl font-black mb-2 tracking-tighter">{t('match.title')}</h2>
+          <p className="text-white/60 mb-8">
+            {t('match.summary', { player: champion.name, target: match.target, rounds: match.rounds.length })}
+          </p>
+
+          <div className="flex flex-col gap-2 mb-6 text-left">
+            {standings.map((seat, place) => (
+              <div
+                key={seat}
+                className={`flex items-center gap-3 px-4 py-3 rounded-2xl border ${place === 0 ? 'bg-yellow-400/10 border-yellow-400/40' : 'bg-white/5 border-white/10'}`}
+              >
+                <span className="w-6 font-mono font-bold text-white/40">{place + 1}</span>
+                <span className="flex-1 font-bold">{match.seats[seat].name}</span>
+                <span className="text-xs text-white/40">{t('match.roundsWon', { count: match.rounds.filter(r => r.winner === seat).length })}</span>
+                <span className="w-16 text-right font-mono font-bold">{match.scores[seat]}</span>
+              </div>
+            ))}
+          </div>
+
+          <div className="mb-8 overflow-x-auto">
+            <table className="w-full text-xs font-mono">
+              <thead>
+                <tr className="text-white/40">
+                  <th className="text-left font-normal py-1">{t('match.round')}</th>
+                  {match.seats.map((seat, i) => <th key={i} className="text-right font-normal py-1">{seat.name}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {match.rounds.map((round, r) => (
+                  <tr key={round.seed} className="border-t border-white/5">
+                    <td className="text-left py-1 text-white/40">{r + 1}</td>
+                    {round.points.map((points, seat) => (
+                      <td key={seat} className={`text-right py-1 ${seat === round.winner ? 'text-indigo-300 font-bold' : 'text-white/30'}`}>
+                        {seat === round.winner ? `+${points}` : '-'}
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+
+          <div className="flex flex-col gap-3">
+            <button
+              onClick={onNewMatch}
+              className="w-full py-4 bg-indigo-600 hover:bg-indigo-500 text-white font-bold rounded-xl transition-all shadow-lg shadow-indigo-600/20 flex items-center justify-center gap-2 group"
+            >
+              <RotateCcw className="w-5 h-5 group-hover:rotate-180 transition-transform duration-500" />
+              {t('match.newMatch')}
+            </button>
+            <button
+              onClick={onMenu}
+              className="w-full py-3 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl font-bold transition-colors"
+            >
+              {t('match.menu')}
+            </button>
+          </div>
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
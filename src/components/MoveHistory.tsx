@@ -0,0 +1,45 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { ChevronDown, ChevronUp, ScrollText } from 'lucide-react';
+import { GameEvent } from '../types';
+import { describeEvent } from '../engine/log';
+import { t } from '../i18n';
+
+interface MoveHistoryProps {
+  events: GameEvent[];
+}
+
+export const MoveHistory: React.FC<MoveHistoryProps> = ({ events }) => {
+  const [open, setOpen] = useState(false);
+  const listRef = useRef<HTMLOListElement>(null);
+  const deal = events[0]?.type === 'deal' ? events[0] : null;
+
+  // Keep the latest move in view
+  useEffect(() => {
+    if (open && listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight;
+  }, [open, events.length]);
+
+  if (!deal) return null;
+
+  return (
+    <div className="fixed top-20 right-4 z-30 w-64 max-w-[calc(100vw-2rem)] bg-black/60 backdrop-blur-md rounded-2xl border border-white/10 shadow-lg">
+      <button
+        onClick={() => setOpen(value => !value)}
+        className="w-full px-3 py-2 flex items-center gap-2 text-xs font-bold"
+      >
+        <ScrollText className="w-4 h-4 text-indigo-400" />
+        <span className="flex-1 text-left">{t('log.title', { count: events.length - 1 })}</span>
+        {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+      </button>
+      {open && (
+        <ol ref={listRef} className="max-h-64 overflow-y-auto px-3 pb-3 flex flex-col gap-1 text-xs text-white/70">
+          {events.map((event, i) => (
+            <li key={i} className="flex gap-2">
+              <span className="w-6 shrink-0 text-right font-mono text-white/30">{i}</span>
+              <span>{describeEvent(event, deal.seats)}</span>
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,59 @@
+
+import React, { useState } from 'react';
+import { Globe } from 'lucide-react';
+import { Message } from '../types';
+import { formatMessage, t } from '../i18n';
+
+interface OnlineLobbyProps {
+  error: Message | null;
+  busy: boolean;
+  onCreate: (name: string) => void;
+  onJoin: (code: string, name: string) => void;
+}
+
+export const OnlineLobby: React.FC<OnlineLobbyProps> = ({ error, busy, onCreate, onJoin }) => {
+  const [name, setName] = useState('');
+  const [code, setCode] = useState('');
+  // The room creator sits in the first seat and whoever joins in the second
+  const nameFor = (seat: number) => name.trim() || t('seat.player', { number: seat + 1 });
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/10 text-left">
+      <div className="flex items-center gap-2 text-indigo-400 font-bold mb-3 text-sm">
+        <Globe className="w-4 h-4" />
+        {t('online.title')}
+      </div>
+      <input
+        value={name}
+        onChange={e => setName(e.target.value)}
+        placeholder={t('online.namePlaceholder')}
+        maxLength={16}
+        className="w-full mb-2 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm placeholder:text-white/30 focus:outline-none focus:border-indigo-400"
+      />
+      <div className="flex gap-2">
+        <button
+          onClick={() => onCreate(nameFor(0))}
+          disabled={busy}
+          className="px-3 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 rounded-xl text-xs font-bold transition-colors"
+        >
+          {t('online.create')}
+        </button>
+        <input
+          value={code}
+          onChange={e => setCode(e.target.value.toUpperCase())}
+          placeholder={t('online.codePlaceholder')}
+          maxLength={4}
+          className="flex-1 min-w-0 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm font-mono tracking-widest placeholder:text-white/30 placeholder:tracking-normal focus:outline-none focus:border-indigo-400"
+        />
+        <button
+          onClick={() => onJoin(code, nameFor(1))}
+          disabled={busy || code.trim().length === 0}
+          className="px-3 py-2 bg-white/10 hover:bg-white/20 disabled:opacity-50 rounded-xl text-xs font-bold transition-colors"
+        >
+          {t('online.join')}
+        </button>
+      </div>
+      {error && <div className="mt-2 text-xs text-red-400">{formatMessage(error)}</div>}
+    </div>
+  );
+};
@@ -0,0 +1,39 @@
+
+import React from 'react';
+import { motion } from 'motion/react';
+import { Seat } from '../types';
+import { PlayingCard } from './PlayingCard';
+
+interface OpponentSeatProps {
+  seat: Seat;
+  isActive: boolean;
+  // Smaller fan used once several opponents share the table
+  compact?: boolean;
+}
+
+const MAX_COMPACT_CARDS = 8;
+
+export const OpponentSeat: React.FC<OpponentSeatProps> = ({ seat, isActive, compact = false }) => {
+  const cards = compact ? seat.hand.slice(0, MAX_COMPACT_CARDS) : seat.hand;
+
+  return (
+    <div className="flex flex-col items-center gap-2">
+      <div className="flex items-center gap-2 mb-2">
+        <div className={`w-2 h-2 rounded-full ${isActive ? 'bg-green-400 animate-pulse' : 'bg-gray-600'}`}></div>
+        <span className="text-sm font-medium opacity-70 uppercase tracking-widest">{seat.name} ({seat.hand.length})</span>
+      </div>
+      <div className={compact ? 'flex -space-x-16 sm:-space-x-20' : 'flex -space-x-12 sm:-space-x-16 hover:-space-x-8 transition-all duration-300'}>
+        {cards.map((card, i) => (
+          <motion.div
+            key={card.id}
+            initial={{ y: -50, opacity: 0 }}
+            animate={{ y: 0, opacity: 1 }}
+            transition={{ delay: i * 0.05 }}
+          >
+            <PlayingCard card={card} isFaceUp={false} className={`shadow-2xl ${compact ? 'scale-75' : ''}`} />
+          </motion.div>
+        ))}
+      </div>
+    </div>
+  );
+};
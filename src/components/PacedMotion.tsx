@@ -0,0 +1,13 @@
+import React from 'react';
+import { MotionConfig } from 'motion/react';
+import { usePacing } from '../pacing/usePacing';
+
+// With "skip animations" on, every motion component jumps straight to its end state.
+export const PacedMotion: React.FC<{ children: React.ReactNode }> = ({ children }) => {
+  const { skipAnimation } = usePacing();
+  return (
+    <MotionConfig reducedMotion={skipAnimation ? 'always' : 'user'} transition={skipAnimation ? { duration: 0 } : undefined}>
+      {children}
+    </MotionConfig>
+  );
+};
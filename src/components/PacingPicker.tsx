@@ -0,0 +1,62 @@
+import React from 'react';
+import { GAME_SPEEDS, Pacing, TIMEOUT_MOVES, TURN_SECONDS_OPTIONS, TimeoutMove, setPacing } from '../pacing';
+import { usePacing } from '../pacing/usePacing';
+import { t } from '../i18n';
+
+const optionClass = (selected: boolean) =>
+  `py-2 rounded-xl text-xs font-bold border transition-colors ${selected ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`;
+
+export const PacingPicker: React.FC = () => {
+  const pacing = usePacing();
+  const update = (change: Partial<Pacing>) => setPacing({ ...pacing, ...change });
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/10 text-left">
+      <div className="text-indigo-400 font-bold mb-3 text-sm">{t('pacing.title')}</div>
+      <div role="group" aria-label={t('pacing.speed')} className="grid grid-cols-4 gap-2 mb-2">
+        {GAME_SPEEDS.map(speed => (
+          <button key={speed} onClick={() => update({ speed })} aria-pressed={pacing.speed === speed} className={optionClass(pacing.speed === speed)}>
+            {t(`speed.${speed}`)}
+          </button>
+        ))}
+      </div>
+      <button
+        onClick={() => update({ skipAnimation: !pacing.skipAnimation })}
+        aria-pressed={pacing.skipAnimation}
+        className={`w-full mb-2 ${optionClass(pacing.skipAnimation)}`}
+      >
+        {t('pacing.skipAnimation')}
+      </button>
+      <div className="flex gap-2 text-xs">
+        <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+          <span className="opacity-60">{t('pacing.turnClock')}</span>
+          <select
+            value={pacing.turnSeconds ?? ''}
+            onChange={e => update({ turnSeconds: e.target.value ? Number(e.target.value) : null })}
+            className="bg-transparent font-bold focus:outline-none"
+          >
+            {TURN_SECONDS_OPTIONS.map(seconds => (
+              <option key={seconds ?? 'off'} value={seconds ?? ''} className="bg-[#2a2d3e]">
+                {seconds ? t('pacing.seconds', { seconds }) : t('pacing.off')}
+              </option>
+            ))}
+          </select>
+        </label>
+        {pacing.turnSeconds && (
+          <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+            <span className="opacity-60">{t('pacing.timeoutMove')}</span>
+            <select
+              value={pacing.timeoutMove}
+              onChange={e => update({ timeoutMove: e.target.value as TimeoutMove })}
+              className="bg-transparent font-bold focus:outline-none"
+            >
+              {TIMEOUT_MOVES.map(move => (
+                <option key={move} value={move} className="bg-[#2a2d3e]">{t(`timeoutMove.${move}`)}</option>
+              ))}
+            </select>
+          </label>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -2,6 +2,10 @@
 import React from 'react';
 import { motion } from 'motion/react';
 import { Card, Suit } from '../types';
+import { getCardName, t } from '../i18n';
+import { isJoker } from '../utils/deck';
+import { CARD_SIZE_CLASSES, CardBack, CardFace, CardTheme, SUIT_SYMBOLS, getSuitColor } from '../theme';
+import { useCardTheme } from '../theme/useCardTheme';
 
 interface PlayingCardProps {
   card: Card;
@@ -9,69 +13,143 @@ interface PlayingCardProps {
   onClick?: () => void;
   isPlayable?: boolean;
   className?: string;
+  // Roving tab index of a card in the player's hand; omit for cards that are only shown
+  tabIndex?: number;
+  onFocus?: () => void;
+  ref?: React.Ref<HTMLDivElement>;
 }
 
-const SuitIcon = ({ suit }: { suit: Suit }) => {
-  switch (suit) {
-    case 'hearts': return <span className="text-red-500">♥</span>;
-    case 'diamonds': return <span className="text-red-500">♦</span>;
-    case 'clubs': return <span className="text-black">♣</span>;
-    case 'spades': return <span className="text-black">♠</span>;
-  }
+export function getCardLabel(card: Card, isPlayable = false): string {
+  return isPlayable ? t('card.playable', { card: { card } }) : getCardName(card);
+}
+
+// Background and centre mark of each card-back design
+const BACKS: Record<CardBack, { className: string; mark: string; markClass: string }> = {
+  indigo: { className: 'bg-indigo-800 border-white/20', mark: 'Q', markClass: 'text-white/40 border-white/30' },
+  crimson: { className: 'bg-rose-800 border-white/20', mark: 'Q', markClass: 'text-white/40 border-white/30' },
+  lattice: {
+    className: 'bg-emerald-800 border-white/20 bg-[repeating-linear-gradient(45deg,rgba(255,255,255,0.12)_0_6px,transparent_6px_12px)]',
+    mark: '♣',
+    markClass: 'text-white/60 border-white/40 bg-emerald-900',
+  },
+  midnight: { className: 'bg-slate-900 border-amber-400/40', mark: '★', markClass: 'text-amber-300/70 border-amber-300/40' },
 };
 
+// Text sizes for the corner index and the centre pip
+function getPrint(theme: CardTheme) {
+  const large = theme.face === 'high_contrast';
+  if (theme.size === 'compact') {
+    return {
+      rank: large ? 'text-base sm:text-lg font-black' : 'text-sm sm:text-base font-bold',
+      pip: large ? 'text-sm sm:text-base' : 'text-xs sm:text-sm',
+      centre: large ? 'text-2xl sm:text-3xl' : 'text-xl sm:text-2xl',
+      padding: 'p-1',
+    };
+  }
+  return {
+    rank: large ? 'text-2xl sm:text-3xl font-black' : 'text-lg sm:text-xl font-bold',
+    pip: large ? 'text-base sm:text-lg' : 'text-sm sm:text-base',
+    centre: large ? 'text-4xl sm:text-5xl' : 'text-3xl sm:text-4xl',
+    padding: 'p-2',
+  };
+}
+
+const SuitIcon = ({ suit, face }: { suit: Suit; face: CardFace }) => (
+  <span className={getSuitColor(suit, face)}>{SUIT_SYMBOLS[suit]}</span>
+);
+
+// Jokers have no suit: a star in the middle and the word read down both corners
+const JokerFace = () => (
+  <>
+    <div className="text-[10px] sm:text-xs font-black leading-none text-purple-700 [writing-mode:vertical-lr]">JOKER</div>
+    <div className="flex-1 flex items-center justify-center text-3xl sm:text-4xl text-purple-600">★</div>
+    <div className="rotate-180 self-end text-[10px] sm:text-xs font-black leading-none text-purple-700 [writing-mode:vertical-lr]">JOKER</div>
+  </>
+);
+
 export const PlayingCard: React.FC<PlayingCardProps> = ({ 
   card, 
   isFaceUp = true, 
   onClick, 
   isPlayable = false,
-  className = ""
+  className = "",
+  tabIndex,
+  onFocus,
+  ref,
 }) => {
+  const theme = useCardTheme();
+  const size = CARD_SIZE_CLASSES[theme.size];
+
   if (!isFaceUp) {
+    const back = BACKS[theme.back];
     return (
       <div 
-        className={`w-20 h-28 sm:w-24 sm:h-36 bg-indigo-800 rounded-lg border-2 border-white/20 shadow-lg flex items-center justify-center overflow-hidden relative ${className}`}
+        ref={ref}
+        role="img"
+        aria-label={t('card.faceDown')}
+        className={`${size} ${back.className} rounded-lg border-2 shadow-lg flex items-center justify-center overflow-hidden relative ${className}`}
       >
         <div className="absolute inset-0 opacity-20 bg-[radial-gradient(circle_at_center,_var(--tw-gradient-stops))] from-white via-transparent to-transparent"></div>
-        <div className="w-12 h-16 border border-white/30 rounded flex items-center justify-center">
-          <div className="text-white/40 font-bold text-xl">Q</div>
+        <div className={`w-3/5 h-3/5 border rounded flex items-center justify-center relative ${back.markClass}`}>
+          <div className="font-bold text-xl">{back.mark}</div>
         </div>
       </div>
     );
   }
 
-  const isRed = card.suit === 'hearts' || card.suit === 'diamonds';
+  const print = getPrint(theme);
+  const rankColor = card.suit ? getSuitColor(card.suit, theme.face) : '';
+  const border = isPlayable
+    ? 'border-yellow-400 cursor-pointer ring-4 ring-yellow-400/30'
+    : theme.face === 'high_contrast' ? 'border-black' : 'border-gray-200';
 
   return (
     <motion.div
+      ref={ref}
+      role={tabIndex !== undefined ? 'button' : 'img'}
+      aria-label={getCardLabel(card, isPlayable)}
+      aria-disabled={tabIndex !== undefined ? !isPlayable : undefined}
+      tabIndex={tabIndex}
+      onFocus={onFocus}
+      onKeyDown={e => {
+        if (isPlayable && onClick && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault();
+          onClick();
+        }
+      }}
       whileHover={isPlayable ? { y: -10, scale: 1.05 } : {}}
       whileTap={isPlayable ? { scale: 0.95 } : {}}
       onClick={isPlayable ? onClick : undefined}
       className={`
-        w-20 h-28 sm:w-24 sm:h-36 bg-white rounded-lg border-2 shadow-lg flex flex-col p-2 relative cursor-default select-none
-        ${isPlayable ? 'border-yellow-400 cursor-pointer ring-4 ring-yellow-400/30' : 'border-gray-200'}
+        outline-none focus-visible:ring-4 focus-visible:ring-sky-400
+        ${size} ${print.padding} bg-white rounded-lg ${theme.face === 'high_contrast' ? 'border-4' : 'border-2'} shadow-lg flex flex-col relative cursor-default select-none
+        ${border}
         ${className}
       `}
     >
-      <div className={`text-lg sm:text-xl font-bold leading-none ${isRed ? 'text-red-600' : 'text-gray-900'}`}>
-        {card.rank}
-      </div>
-      <div className="text-sm sm:text-base leading-none">
-        <SuitIcon suit={card.suit} />
-      </div>
-      
-      <div className="flex-1 flex items-center justify-center text-3xl sm:text-4xl">
-        <SuitIcon suit={card.suit} />
-      </div>
+      {isJoker(card) ? <JokerFace /> : (
+        <>
+          <div className={`${print.rank} leading-none ${rankColor}`}>
+            {card.rank}
+          </div>
+          <div className={`${print.pip} leading-none`}>
+            <SuitIcon suit={card.suit} face={theme.face} />
+          </div>
 
-      <div className="rotate-180 flex flex-col items-start">
-        <div className={`text-lg sm:text-xl font-bold leading-none ${isRed ? 'text-red-600' : 'text-gray-900'}`}>
-          {card.rank}
-        </div>
-        <div className="text-sm sm:text-base leading-none">
-          <SuitIcon suit={card.suit} />
-        </div>
-      </div>
+          <div className={`flex-1 flex items-center justify-center ${print.centre}`}>
+            <SuitIcon suit={card.suit} face={theme.face} />
+          </div>
+
+          <div className="rotate-180 flex flex-col items-start">
+            <div className={`${print.rank} leading-none ${rankColor}`}>
+              {card.rank}
+            </div>
+            <div className={`${print.pip} leading-none`}>
+              <SuitIcon suit={card.suit} face={theme.face} />
+            </div>
+          </div>
+        </>
+      )}
     </motion.div>
   );
 };
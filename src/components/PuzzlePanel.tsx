@@ -0,0 +1,49 @@
+import React from 'react';
+import { Puzzle as PuzzleIcon, X } from 'lucide-react';
+import { PuzzleStatus } from '../puzzles/puzzles';
+import { t } from '../i18n';
+
+interface PuzzlePanelProps {
+  title: string;
+  turns: number;
+  turnsUsed: number;
+  status: PuzzleStatus;
+  // Null for the last puzzle of the pack or a custom one
+  onNext: (() => void) | null;
+  onRetry: () => void;
+  onExit: () => void;
+}
+
+export const PuzzlePanel: React.FC<PuzzlePanelProps> = ({ title, turns, turnsUsed, status, onNext, onRetry, onExit }) => (
+  <div className="fixed z-[70] top-20 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-md p-4 bg-[#2a2d3e] rounded-2xl border border-indigo-400/40 shadow-2xl text-left">
+    <div className="flex items-center gap-2 mb-2">
+      <PuzzleIcon className="w-5 h-5 text-indigo-400" />
+      <span className="font-bold text-sm">{title}</span>
+      <span className="text-xs font-mono text-white/50">{t('puzzle.progress', { used: Math.min(turnsUsed + (status === 'playing' ? 1 : 0), turns), turns })}</span>
+      <button onClick={onExit} aria-label={t('puzzle.exit')} className="ml-auto p-1 hover:bg-white/10 rounded-full transition-colors">
+        <X className="w-4 h-4" />
+      </button>
+    </div>
+    <p role="status" aria-live="polite" className={`text-sm ${status === 'solved' ? 'text-green-400 font-bold' : status === 'failed' ? 'text-red-300' : 'text-white/80'}`}>
+      {status === 'solved' ? t('puzzle.solved') : status === 'failed' ? t('puzzle.failed') : t('puzzle.goal', { turns })}
+    </p>
+    {status !== 'playing' && (
+      <div className="mt-3 flex gap-2">
+        <button
+          onClick={onRetry}
+          className="flex-1 py-2 bg-white/10 hover:bg-white/20 border border-white/10 text-sm font-bold rounded-xl transition-colors"
+        >
+          {t('puzzle.retry')}
+        </button>
+        {status === 'solved' && onNext && (
+          <button
+            onClick={onNext}
+            className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 text-sm font-bold rounded-xl transition-colors"
+          >
+            {t('puzzle.next')}
+          </button>
+        )}
+      </div>
+    )}
+  </div>
+);
@@ -0,0 +1,108 @@
+import React, { useState } from 'react';
+import { motion } from 'motion/react';
+import { Check, Puzzle as PuzzleIcon, X } from 'lucide-react';
+import { Message, RuleSet } from '../types';
+import { PUZZLES, Puzzle, PuzzleId } from '../puzzles/puzzles';
+import { parsePosition } from '../engine/position';
+import { formatMessage, t } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface PuzzleScreenProps {
+  solved: PuzzleId[];
+  // Rules a pasted position is played with
+  rules: RuleSet;
+  onPlay: (puzzle: Puzzle) => void;
+  onClose: () => void;
+}
+
+const CUSTOM_TURNS = [1, 2, 3, 4, 5, 6, 8, 10];
+
+export const PuzzleScreen: React.FC<PuzzleScreenProps> = ({ solved, rules, onPlay, onClose }) => {
+  const [text, setText] = useState('');
+  const [turns, setTurns] = useState(3);
+  const [error, setError] = useState<Message | null>(null);
+
+  const playCustom = () => {
+    const parsed = parsePosition(text, rules);
+    if (parsed.ok === false) {
+      setError(parsed.error);
+      return;
+    }
+    onPlay({ id: null, position: text.trim(), turns, rules });
+  };
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto"
+    >
+      <FocusTrap label={t('puzzle.title')} className="contents">
+        <div className="bg-[#2a2d3e] p-6 rounded-3xl border border-white/10 shadow-2xl max-w-lg w-full">
+          <div className="flex items-center justify-between mb-2">
+            <div className="flex items-center gap-2 text-xl font-bold">
+              <PuzzleIcon className="w-5 h-5 text-indigo-400" />
+              {t('puzzle.title')}
+            </div>
+            <button onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+          <p className="text-sm text-white/60 mb-4">{t('puzzle.intro')}</p>
+
+          <div className="flex flex-col gap-2 mb-4">
+            {PUZZLES.map((puzzle, i) => (
+              <button
+                key={puzzle.id}
+                onClick={() => onPlay(puzzle)}
+                className="flex items-center gap-3 px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-sm text-left transition-colors"
+              >
+                <span className="font-mono text-white/40">{i + 1}</span>
+                <span className="flex-1 font-bold">{t(`puzzle.${puzzle.id}`)}</span>
+                <span className="text-xs text-white/50">
+                  {t('puzzle.winIn', { turns: puzzle.turns })} · {t('puzzle.players', { count: puzzle.position.split(' ')[0].split('/').length })}
+                </span>
+                {solved.includes(puzzle.id) && <Check aria-label={t('puzzle.solved')} className="w-4 h-4 text-green-400" />}
+              </button>
+            ))}
+          </div>
+
+          <div className="p-4 bg-white/5 rounded-2xl border border-white/10 text-left">
+            <div className="text-indigo-400 font-bold mb-1 text-sm">{t('puzzle.custom')}</div>
+            <p className="text-xs text-white/40 mb-3">{t('puzzle.customHint')}</p>
+            <textarea
+              value={text}
+              onChange={e => {
+                setText(e.target.value);
+                setError(null);
+              }}
+              rows={3}
+              spellCheck={false}
+              aria-label={t('puzzle.custom')}
+              className="w-full mb-2 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-xs font-mono placeholder:text-white/30 focus:outline-none focus:border-indigo-400 resize-none"
+            />
+            {error && <div className="mb-2 text-xs text-red-400">{formatMessage(error)}</div>}
+            <div className="flex gap-2">
+              <label className="flex items-center gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10 text-xs">
+                <span className="opacity-60">{t('puzzle.customTurns')}</span>
+                <select value={turns} onChange={e => setTurns(Number(e.target.value))} className="bg-transparent font-mono font-bold focus:outline-none">
+                  {CUSTOM_TURNS.map(option => (
+                    <option key={option} value={option} className="bg-[#2a2d3e]">{option}</option>
+                  ))}
+                </select>
+              </label>
+              <button
+                onClick={playCustom}
+                disabled={!text.trim()}
+                className="flex-1 py-2 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-40 disabled:hover:bg-indigo-600 rounded-xl text-sm font-bold transition-colors"
+              >
+                {t('puzzle.play')}
+              </button>
+            </div>
+          </div>
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
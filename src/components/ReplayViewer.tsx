@@ -0,0 +1,109 @@
+import React, { useMemo, useState } from 'react';
+import { motion } from 'motion/react';
+import { ChevronLeft, ChevronRight, ChevronsLeft, ChevronsRight, Download, X } from 'lucide-react';
+import { GameEvent } from '../types';
+import { describeEvent, replayLog, serializeLog } from '../engine/log';
+import { getTopCard } from '../engine/rules';
+import { t } from '../i18n';
+import { PlayingCard } from './PlayingCard';
+import { FocusTrap } from './FocusTrap';
+
+interface ReplayViewerProps {
+  events: GameEvent[];
+  onClose: () => void;
+}
+
+function downloadLog(events: GameEvent[]) {
+  const deal = events[0];
+  const url = URL.createObjectURL(new Blob([serializeLog(events)], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `crazy8-${deal?.type === 'deal' && deal.seed ? deal.seed : 'game'}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+// Steps through a finished game with every hand face up.
+export const ReplayViewer: React.FC<ReplayViewerProps> = ({ events, onClose }) => {
+  const states = useMemo(() => replayLog(events), [events]);
+  const [index, setIndex] = useState(0);
+  const state = states[index];
+  const topCard = getTopCard(state);
+  const last = states.length - 1;
+
+  const controls = [
+    { icon: ChevronsLeft, label: t('replay.start'), target: 0 },
+    { icon: ChevronLeft, label: t('replay.previous'), target: Math.max(0, index - 1) },
+    { icon: ChevronRight, label: t('replay.next'), target: Math.min(last, index + 1) },
+    { icon: ChevronsRight, label: t('replay.end'), target: last },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[130] flex flex-col bg-[#1a1c2c] p-4 overflow-y-auto"
+    >
+      <FocusTrap label={t('replay.title')} className="contents">
+        <div className="max-w-5xl w-full mx-auto flex items-center justify-between mb-4">
+          <h2 className="text-xl font-bold">{t('replay.title')}</h2>
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => downloadLog(events)}
+              className="px-3 py-2 bg-white/5 hover:bg-white/10 border border-white/10 rounded-xl text-xs font-bold transition-colors flex items-center gap-2"
+            >
+              <Download className="w-4 h-4 text-indigo-400" />
+              {t('replay.export')}
+            </button>
+            <button onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+        </div>
+
+        <div className="max-w-5xl w-full mx-auto flex-1 flex flex-col gap-4">
+          {state.seats.map((seat, i) => (
+            <div key={i} className={`p-3 rounded-2xl border ${state.turn === i && state.status !== 'game_over' ? 'border-indigo-400 bg-indigo-500/10' : 'border-white/10 bg-white/5'}`}>
+              <div className="text-sm font-medium opacity-70 mb-2">
+                {seat.name} ({seat.hand.length}){state.winner === i ? t('replay.winner') : ''}
+              </div>
+              <div className="flex flex-wrap -space-x-12 sm:-space-x-14">
+                {seat.hand.map(card => <PlayingCard key={card.id} card={card} className="scale-75 origin-top-left" />)}
+              </div>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-center gap-8">
+            <div className="text-center text-xs font-mono opacity-60">{t('replay.deck', { count: state.deck.length })}</div>
+            {topCard && <PlayingCard card={topCard} />}
+            <div className="text-center text-xs font-mono opacity-60">
+              {state.currentSuit ? t('replay.currentSuit', { suit: { suit: state.currentSuit } }) : ' '}
+            </div>
+          </div>
+        </div>
+
+        <div className="max-w-5xl w-full mx-auto mt-4 p-4 bg-black/40 rounded-2xl border border-white/10 flex flex-col sm:flex-row items-center gap-4">
+          <p className="flex-1 text-sm text-white/80">
+            <span className="font-mono text-white/40 mr-2">{index}/{last}</span>
+            {describeEvent(events[index], states[0].seats)}
+          </p>
+          <div className="flex gap-2">
+            {controls.map(({ icon: Icon, label, target }) => (
+              <button
+                key={label}
+                onClick={() => setIndex(target)}
+                disabled={target === index}
+                title={label}
+                aria-label={label}
+                className="p-2 bg-white/5 hover:bg-white/10 disabled:opacity-30 border border-white/10 rounded-xl transition-colors"
+              >
+                <Icon className="w-5 h-5" />
+              </button>
+            ))}
+          </div>
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
@@ -0,0 +1,126 @@
+
+import React from 'react';
+import { BlockedTiebreak, DrawPolicy, JokerRule, Rank, RuleSet } from '../types';
+import { RANKS } from '../utils/deck';
+import { BLOCKED_TIEBREAKS, DECK_OPTIONS, DRAW_LIMIT_OPTIONS, DRAW_POLICIES, HAND_SIZE_OPTIONS, JOKER_RULES } from '../engine/ruleset';
+import { t } from '../i18n';
+
+interface RuleSetPickerProps {
+  rules: RuleSet;
+  onChange: (rules: RuleSet) => void;
+}
+
+type RuleToggle = 'drawTwo' | 'stacking' | 'skip' | 'reverse' | 'voluntaryDraw';
+
+const TOGGLES: RuleToggle[] = ['drawTwo', 'stacking', 'skip', 'reverse', 'voluntaryDraw'];
+
+export const RuleSetPicker: React.FC<RuleSetPickerProps> = ({ rules, onChange }) => {
+  const toggle = (key: RuleToggle) => {
+    const next = { ...rules, [key]: !rules[key] };
+    // Stacking only means something while draw-two is on
+    if (key === 'drawTwo' && !next.drawTwo) next.stacking = false;
+    if (key === 'stacking' && next.stacking) next.drawTwo = true;
+    onChange(next);
+  };
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/10 text-left">
+      <div className="text-indigo-400 font-bold mb-3 text-sm">{t('rules.title')}</div>
+      <div className="grid grid-cols-2 gap-2 mb-3">
+        {TOGGLES.map(key => (
+          <button
+            key={key}
+            onClick={() => toggle(key)}
+            className={`px-3 py-2 rounded-xl text-xs font-bold border transition-colors ${rules[key] ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+          >
+            {t(`rules.${key}`)}
+          </button>
+        ))}
+      </div>
+      <div className="flex gap-2 text-xs">
+        <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+          <span className="opacity-60">{t('rules.wildRank')}</span>
+          <select
+            value={rules.wildRank}
+            onChange={e => onChange({ ...rules, wildRank: e.target.value as Rank })}
+            className="bg-transparent font-mono font-bold focus:outline-none"
+          >
+            {RANKS.map(rank => <option key={rank} value={rank} className="bg-[#2a2d3e]">{rank}</option>)}
+          </select>
+        </label>
+        <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+          <span className="opacity-60">{t('rules.handSize')}</span>
+          <select
+            value={rules.handSize}
+            onChange={e => onChange({ ...rules, handSize: Number(e.target.value) })}
+            className="bg-transparent font-mono font-bold focus:outline-none"
+          >
+            {HAND_SIZE_OPTIONS.map(size => <option key={size} value={size} className="bg-[#2a2d3e]">{size}</option>)}
+          </select>
+        </label>
+      </div>
+      <div className="mt-2 flex gap-2 text-xs">
+        <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+          <span className="opacity-60">{t('rules.drawPolicy')}</span>
+          <select
+            value={rules.drawPolicy}
+            onChange={e => onChange({ ...rules, drawPolicy: e.target.value as DrawPolicy })}
+            className="bg-transparent font-bold focus:outline-none"
+          >
+            {DRAW_POLICIES.map(key => (
+              <option key={key} value={key} className="bg-[#2a2d3e]">{t(`drawPolicy.${key}`)}</option>
+            ))}
+          </select>
+        </label>
+        {rules.drawPolicy === 'up_to_n' && (
+          <label className="flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+            <span className="opacity-60">N</span>
+            <select
+              value={rules.drawLimit}
+              onChange={e => onChange({ ...rules, drawLimit: Number(e.target.value) })}
+              className="bg-transparent font-mono font-bold focus:outline-none"
+            >
+              {DRAW_LIMIT_OPTIONS.map(limit => <option key={limit} value={limit} className="bg-[#2a2d3e]">{limit}</option>)}
+            </select>
+          </label>
+        )}
+      </div>
+      <div className="mt-2 flex gap-2 text-xs">
+        <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+          <span className="opacity-60">{t('rules.decks')}</span>
+          <select
+            value={rules.decks}
+            onChange={e => onChange({ ...rules, decks: Number(e.target.value) })}
+            className="bg-transparent font-mono font-bold focus:outline-none"
+          >
+            {DECK_OPTIONS.map(decks => <option key={decks} value={decks} className="bg-[#2a2d3e]">{decks}</option>)}
+          </select>
+        </label>
+        <label className="flex-1 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10">
+          <span className="opacity-60">{t('rules.jokers')}</span>
+          <select
+            value={rules.jokers}
+            onChange={e => onChange({ ...rules, jokers: e.target.value as JokerRule })}
+            className="bg-transparent font-bold focus:outline-none"
+          >
+            {JOKER_RULES.map(key => (
+              <option key={key} value={key} className="bg-[#2a2d3e]">{t(`jokers.${key}`)}</option>
+            ))}
+          </select>
+        </label>
+      </div>
+      <label className="mt-2 flex items-center justify-between gap-2 px-3 py-2 bg-white/5 rounded-xl border border-white/10 text-xs">
+        <span className="opacity-60">{t('rules.blockedTiebreak')}</span>
+        <select
+          value={rules.blockedTiebreak}
+          onChange={e => onChange({ ...rules, blockedTiebreak: e.target.value as BlockedTiebreak })}
+          className="bg-transparent font-bold focus:outline-none"
+        >
+          {BLOCKED_TIEBREAKS.map(key => (
+            <option key={key} value={key} className="bg-[#2a2d3e]">{t(`tiebreak.${key}`)}</option>
+          ))}
+        </select>
+      </label>
+    </div>
+  );
+};
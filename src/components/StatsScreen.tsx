@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { motion } from 'motion/react';
+import { BarChart3, X } from 'lucide-react';
+import { fetchProfileStats, fetchRecentGames } from '../stats/api';
+import { Profile } from '../stats/profile';
+import { GameRecord, ProfileStats } from '../stats/types';
+import { Message } from '../types';
+import { createMessage, formatMessage, t } from '../i18n';
+import { FocusTrap } from './FocusTrap';
+
+interface StatsScreenProps {
+  profile: Profile;
+  onProfileChange: (profile: Profile) => void;
+  onClose: () => void;
+}
+
+function formatDuration(ms: number): string {
+  const seconds = Math.round(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+}
+
+export const StatsScreen: React.FC<StatsScreenProps> = ({ profile, onProfileChange, onClose }) => {
+  const [stats, setStats] = useState<ProfileStats | null>(null);
+  const [games, setGames] = useState<GameRecord[]>([]);
+  const [error, setError] = useState<Message | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    Promise.all([fetchProfileStats(profile.id), fetchRecentGames(profile.id)])
+      .then(([nextStats, nextGames]) => {
+        if (cancelled) return;
+        setStats(nextStats);
+        setGames(nextGames);
+      })
+      .catch(() => !cancelled && setError(createMessage('stats.unreachable')));
+    return () => {
+      cancelled = true;
+    };
+  }, [profile.id]);
+
+  const tiles = stats && [
+    { label: t('stats.games'), value: String(stats.games) },
+    { label: t('stats.winRate'), value: `${Math.round(stats.winRate * 100)}%` },
+    { label: t('stats.currentStreak'), value: String(stats.currentStreak) },
+    { label: t('stats.bestStreak'), value: String(stats.bestStreak) },
+    { label: t('stats.averageTurns'), value: stats.averageTurns.toFixed(1) },
+    { label: t('stats.averageDuration'), value: formatDuration(stats.averageDurationMs) },
+  ];
+
+  return (
+    <motion.div
+      initial={{ opacity: 0 }}
+      animate={{ opacity: 1 }}
+      exit={{ opacity: 0 }}
+      className="fixed inset-0 z-[120] flex items-center justify-center bg-black/80 backdrop-blur-sm p-4 overflow-y-auto"
+    >
+      <FocusTrap label={t('stats.title')} className="contents">
+        <div className="bg-[#2a2d3e] p-6 rounded-3xl border border-white/10 shadow-2xl max-w-lg w-full">
+          <div className="flex items-center justify-between mb-4">
+            <div className="flex items-center gap-2 text-xl font-bold">
+              <BarChart3 className="w-5 h-5 text-indigo-400" />
+              {t('stats.title')}
+            </div>
+            <button onClick={onClose} aria-label={t('common.close')} className="p-2 hover:bg-white/10 rounded-full transition-colors">
+              <X className="w-5 h-5" />
+            </button>
+          </div>
+
+          <input
+            value={profile.name}
+            onChange={e => onProfileChange({ ...profile, name: e.target.value.slice(0, 16) })}
+            placeholder={t('stats.namePlaceholder')}
+            className="w-full mb-4 px-3 py-2 bg-white/5 border border-white/10 rounded-xl text-sm placeholder:text-white/30 focus:outline-none focus:border-indigo-400"
+          />
+
+          {error && <div className="mb-4 text-sm text-red-400">{formatMessage(error)}</div>}
+
+          {tiles && (
+            <div className="grid grid-cols-3 gap-2 mb-4">
+              {tiles.map(tile => (
+                <div key={tile.label} className="p-3 bg-white/5 rounded-2xl border border-white/10 text-center">
+                  <div className="text-xl font-bold font-mono">{tile.value}</div>
+                  <div className="text-[10px] opacity-50 uppercase tracking-widest">{tile.label}</div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {games.length > 0 && (
+            <div className="flex flex-col gap-1 text-xs">
+              <div className="text-white/40 mb-1">{t('stats.recent')}</div>
+              {games.map(game => (
+                <div key={game.id} className="flex items-center gap-3 px-3 py-2 bg-white/5 rounded-xl">
+                  <span className={`font-bold ${game.won ? 'text-green-400' : 'text-red-400'}`}>{game.won ? t('stats.won') : t('stats.lost')}</span>
+                  <span className="flex-1 truncate text-white/60">
+                    {t('stats.gameSummary', {
+                      mode: game.mode === 'online' ? t('stats.online') : t('stats.playerCount', { count: game.playerCount }),
+                      winner: game.winner,
+                      turns: game.turns,
+                    })}
+                  </span>
+                  <span className="font-mono text-white/30">#{game.seed}</span>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {stats && stats.games === 0 && <div className="text-sm text-white/40 text-center">{t('stats.noGames')}</div>}
+        </div>
+      </FocusTrap>
+    </motion.div>
+  );
+};
@@ -0,0 +1,75 @@
+
+import React from 'react';
+import { Bot, User } from 'lucide-react';
+import { AIDifficulty, SeatConfig } from '../types';
+import { MAX_PLAYERS, MIN_PLAYERS, nameSeats } from '../engine/table';
+import { AI_DIFFICULTIES } from '../ai';
+import { t } from '../i18n';
+
+interface TableSetupProps {
+  seats: SeatConfig[];
+  onChange: (seats: SeatConfig[]) => void;
+  difficulty: AIDifficulty;
+  onDifficultyChange: (difficulty: AIDifficulty) => void;
+}
+
+export const TableSetup: React.FC<TableSetupProps> = ({ seats, onChange, difficulty, onDifficultyChange }) => {
+  const kinds = seats.map(seat => seat.kind);
+
+  const setPlayerCount = (count: number) => {
+    const next = kinds.slice(0, count);
+    while (next.length < count) next.push('ai');
+    onChange(nameSeats(next));
+  };
+
+  // The first seat always belongs to whoever is holding the device
+  const toggleSeat = (index: number) => {
+    if (index === 0) return;
+    onChange(nameSeats(kinds.map((kind, i) => (i === index ? (kind === 'ai' ? 'human' : 'ai') : kind))));
+  };
+
+  const counts = [];
+  for (let n = MIN_PLAYERS; n <= MAX_PLAYERS; n++) counts.push(n);
+
+  return (
+    <div className="p-4 bg-white/5 rounded-2xl border border-white/10 text-left">
+      <div className="text-indigo-400 font-bold mb-3 text-sm">{t('table.players')}</div>
+      <div className="grid grid-cols-5 gap-2 mb-3">
+        {counts.map(n => (
+          <button
+            key={n}
+            onClick={() => setPlayerCount(n)}
+            className={`py-2 rounded-xl text-xs font-bold font-mono border transition-colors ${seats.length === n ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+          >
+            {n}
+          </button>
+        ))}
+      </div>
+      <div className="flex flex-wrap gap-2">
+        {seats.map((seat, i) => (
+          <button
+            key={i}
+            onClick={() => toggleSeat(i)}
+            disabled={i === 0}
+            className="flex items-center gap-1 px-3 py-1.5 rounded-full text-xs font-bold bg-white/5 border border-white/10 hover:bg-white/10 disabled:hover:bg-white/5 transition-colors"
+          >
+            {seat.kind === 'human' ? <User className="w-3 h-3 text-green-400" /> : <Bot className="w-3 h-3 text-indigo-400" />}
+            {seat.name}
+          </button>
+        ))}
+      </div>
+      <div className="text-indigo-400 font-bold mt-4 mb-3 text-sm">{t('table.difficulty')}</div>
+      <div className="grid grid-cols-3 gap-2">
+        {AI_DIFFICULTIES.map(level => (
+          <button
+            key={level}
+            onClick={() => onDifficultyChange(level)}
+            className={`py-2 rounded-xl text-xs font-bold border transition-colors ${difficulty === level ? 'bg-indigo-600 border-indigo-400' : 'bg-white/5 border-white/10 text-white/50 hover:bg-white/10'}`}
+          >
+            {t(`difficulty.${level}`)}
+          </button>
+        ))}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,27 @@
+import React from 'react';
+import { CLOCK_WARNING_SECONDS } from '../pacing';
+
+interface TurnClockRingProps {
+  secondsLeft: number;
+  totalSeconds: number;
+}
+
+// Outline around the hand that drains as the turn clock runs down.
+export const TurnClockRing: React.FC<TurnClockRingProps> = ({ secondsLeft, totalSeconds }) => {
+  const fraction = Math.max(0, Math.min(1, secondsLeft / totalSeconds));
+  return (
+    <svg aria-hidden="true" className="absolute -inset-3 pointer-events-none overflow-visible">
+      <rect width="100%" height="100%" rx="16" pathLength={1} className="fill-none stroke-white/10" strokeWidth={3} />
+      <rect
+        width="100%"
+        height="100%"
+        rx="16"
+        pathLength={1}
+        strokeDasharray={`${fraction} 1`}
+        strokeWidth={3}
+        strokeLinecap="round"
+        className={`fill-none transition-[stroke-dasharray] duration-300 ease-linear ${secondsLeft <= CLOCK_WARNING_SECONDS ? 'stroke-red-500' : 'stroke-emerald-400'}`}
+      />
+    </svg>
+  );
+};
@@ -0,0 +1,91 @@
+import React, { useEffect, useState } from 'react';
+import { GraduationCap, X } from 'lucide-react';
+import { TutorialHint } from '../tutorial/lessons';
+import { t } from '../i18n';
+
+interface TutorialOverlayProps {
+  lesson: number;
+  lessonCount: number;
+  title: string;
+  hint: TutorialHint;
+  done: boolean;
+  // Shown after the learner tried a move the lesson does not accept
+  blocked: boolean;
+  onNext: () => void;
+  onExit: () => void;
+}
+
+interface Rect {
+  top: number;
+  left: number;
+  width: number;
+  height: number;
+}
+
+// Board elements mark themselves with data-tutorial="<target>"; the highlight follows them
+// around as the layout shifts and cards animate in.
+function useTargetRect(target: string | null): Rect | null {
+  const [rect, setRect] = useState<Rect | null>(null);
+  useEffect(() => {
+    if (!target) {
+      setRect(null);
+      return;
+    }
+    const measure = () => {
+      const element = document.querySelector(`[data-tutorial="${target}"]`);
+      const box = element?.getBoundingClientRect();
+      setRect(box ? { top: box.top, left: box.left, width: box.width, height: box.height } : null);
+    };
+    measure();
+    const timer = setInterval(measure, 300);
+    window.addEventListener('resize', measure);
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('resize', measure);
+    };
+  }, [target]);
+  return rect;
+}
+
+const PADDING = 8;
+
+export const TutorialOverlay: React.FC<TutorialOverlayProps> = ({ lesson, lessonCount, title, hint, done, blocked, onNext, onExit }) => {
+  const rect = useTargetRect(hint.target);
+  const last = lesson === lessonCount - 1;
+
+  return (
+    <>
+      {rect && (
+        <div
+          aria-hidden="true"
+          className="fixed z-[60] pointer-events-none rounded-2xl border-4 border-amber-300 shadow-[0_0_0_9999px_rgba(0,0,0,0.35)] animate-pulse"
+          style={{ top: rect.top - PADDING, left: rect.left - PADDING, width: rect.width + PADDING * 2, height: rect.height + PADDING * 2 }}
+        >
+          <div className="absolute -top-9 left-1/2 -translate-x-1/2 text-3xl text-amber-300 animate-bounce">▼</div>
+        </div>
+      )}
+      <div className="fixed z-[70] top-20 left-1/2 -translate-x-1/2 w-[calc(100%-2rem)] max-w-md p-4 bg-[#2a2d3e] rounded-2xl border border-amber-300/40 shadow-2xl text-left">
+        <div className="flex items-center gap-2 mb-2">
+          <GraduationCap className="w-5 h-5 text-amber-300" />
+          <span className="text-xs font-bold uppercase tracking-widest text-amber-300">{t('tutorial.lesson', { number: lesson + 1, count: lessonCount })}</span>
+          <span className="font-bold text-sm">{title}</span>
+          <button onClick={onExit} aria-label={t('tutorial.exit')} className="ml-auto p-1 hover:bg-white/10 rounded-full transition-colors">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+        <p role="status" aria-live="polite" className="text-sm text-white/80">
+          {t(hint.key, hint.params)}
+        </p>
+        {blocked && !done && <p className="mt-2 text-xs text-red-300">{t('tutorial.blocked')}</p>}
+        {done && (
+          <button
+            onClick={onNext}
+            className="mt-3 w-full py-2 bg-amber-400 hover:bg-amber-300 text-black text-sm font-bold rounded-xl transition-colors"
+          >
+            {last ? t('tutorial.finish') : t('tutorial.next')}
+          </button>
+        )}
+      </div>
+    </>
+  );
+};
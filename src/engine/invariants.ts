@@ -0,0 +1,76 @@
+import { Card, GameState, Message } from '../types';
+import { createDeck } from '../utils/deck';
+import { createMessage } from '../i18n';
+import { getPlayerLabel, getTopCard } from './rules';
+import { getJokerCount, isWild } from './ruleset';
+
+// Sanity checks for a table between transitions. A correct engine never trips them; the app
+// runs them after every local move in development builds to catch lost or duplicated cards
+// the moment they happen.
+
+// The cards every table of these rules is made of, by id
+function getShoe(state: GameState): Map<string, Card> {
+  const shoe = createDeck(() => 0, state.rules.decks, getJokerCount(state.rules));
+  return new Map(shoe.map(card => [card.id, card]));
+}
+
+function checkCards(state: GameState): Message[] {
+  const shoe = getShoe(state);
+  const cards = [...state.seats.flatMap(s => s.hand), ...state.discardPile, ...state.deck];
+  const counts = new Map<string, number>();
+  const violations: Message[] = [];
+  for (const card of cards) {
+    counts.set(card.id, (counts.get(card.id) ?? 0) + 1);
+    const expected = shoe.get(card.id);
+    if (!expected) {
+      violations.push(createMessage('invariant.unknownCard', { id: card.id }));
+    } else if (expected.rank !== card.rank || expected.suit !== card.suit) {
+      violations.push(createMessage('invariant.wrongFace', { id: card.id, card: { card } }));
+    }
+  }
+  counts.forEach((count, id) => {
+    if (count > 1) violations.push(createMessage('invariant.duplicateCard', { id, count }));
+  });
+  shoe.forEach((_, id) => {
+    if (!counts.has(id)) violations.push(createMessage('invariant.missingCard', { id }));
+  });
+  return violations;
+}
+
+function checkTable(state: GameState): Message[] {
+  const violations: Message[] = [];
+  const top = getTopCard(state);
+  const topIsWild = top !== null && isWild(top, state.rules);
+  const inPlay = state.status === 'playing' || state.status === 'suit_selection';
+
+  if (!Number.isInteger(state.turn) || state.turn < 0 || state.turn >= state.seats.length) {
+    violations.push(createMessage('invariant.turn', { turn: state.turn, count: state.seats.length }));
+  }
+  if (!top) violations.push(createMessage('invariant.emptyDiscard'));
+  // A named suit only ever follows a wild card, and only once the suit has been picked
+  if (state.currentSuit && !topIsWild) {
+    violations.push(createMessage('invariant.suitWithoutWild', { suit: { suit: state.currentSuit } }));
+  }
+  if (state.status === 'suit_selection' && (!topIsWild || state.currentSuit)) {
+    violations.push(createMessage('invariant.suitSelection'));
+  }
+  if (inPlay) {
+    if (state.winner !== null) violations.push(createMessage('invariant.winnerInPlay'));
+    state.seats.forEach((seat, i) => {
+      if (seat.hand.length === 0) violations.push(createMessage('invariant.emptyHand', { player: getPlayerLabel(state, i) }));
+    });
+  } else if (state.winner !== null && !state.seats[state.winner]) {
+    violations.push(createMessage('invariant.winner', { winner: state.winner }));
+  }
+  if (state.drawnCardId && !state.seats[state.turn]?.hand.some(c => c.id === state.drawnCardId)) {
+    violations.push(createMessage('invariant.drawnCard', { id: state.drawnCardId }));
+  }
+  return violations;
+}
+
+// Everything wrong with the table, empty when it is consistent. Tables outside a game (menu,
+// waiting for a deal) are not checked.
+export function checkInvariants(state: GameState): Message[] {
+  if (state.status === 'menu' || state.status === 'waiting') return [];
+  return [...checkCards(state), ...checkTable(state)];
+}
@@ -0,0 +1,111 @@
+import { Card, GameAction, GameEvent, GameState, Message, RuleSet, SeatConfig } from '../types';
+import { createMessage, t } from '../i18n';
+import { isRecord } from '../utils/guards';
+import { applyAction, createGame, isLegalAction } from './rules';
+import { DEFAULT_RULES, findInvalidRules } from './ruleset';
+import { isCardConserved } from './position';
+import { MAX_PLAYERS, MIN_PLAYERS } from './table';
+
+// Rebuilding games from their event log, and the log's JSON export format.
+
+export const LOG_VERSION = 1;
+
+interface LogFile {
+  version: number;
+  events: GameEvent[];
+}
+
+export type ParsedLog =
+  | { ok: true; events: GameEvent[] }
+  | { ok: false; error: Message };
+
+// The action behind an event; null for deals and reshuffles, which follow from the seed.
+export function eventToAction(event: GameEvent): GameAction | null {
+  switch (event.type) {
+    case 'play': return event.suit ? { type: 'play', cardId: event.card.id, suit: event.suit } : { type: 'play', cardId: event.card.id };
+    case 'choose_suit': return { type: 'choose_suit', suit: event.suit };
+    case 'draw': return { type: 'draw' };
+    case 'pass': return { type: 'pass' };
+    case 'keep': return { type: 'keep' };
+    default: return null;
+  }
+}
+
+// The state after every event: states[i] is the table right after events[i]. Throws when the
+// log does not start with a deal or contains a move the rules reject.
+export function replayLog(events: GameEvent[]): GameState[] {
+  const deal = events[0];
+  if (deal?.type !== 'deal') throw new Error('Game log must start with a deal');
+
+  // Logs from before a rule existed replay with its default
+  let state = createGame({ seed: deal.seed, rules: { ...DEFAULT_RULES, ...deal.rules }, seats: deal.seats, dealer: deal.dealer, layout: deal.layout });
+  const states = [state];
+  for (const event of events.slice(1)) {
+    const action = eventToAction(event);
+    if (action) {
+      if (!isLegalAction(state, action)) throw new Error(`Illegal ${event.type} in game log`);
+      state = applyAction(state, action);
+    }
+    states.push(state);
+  }
+  return states;
+}
+
+// One log line in the current language.
+export function describeEvent(event: GameEvent, seats: SeatConfig[]): string {
+  const player = (seat: number) => seats[seat]?.name ?? t('seat.player', { number: seat + 1 });
+  switch (event.type) {
+    case 'deal': return t('log.deal', { count: event.seats.length, seed: event.seed || t('log.hiddenSeed') });
+    case 'play': return event.suit
+      ? t('log.playWild', { player: player(event.seat), card: { card: event.card }, suit: { suit: event.suit } })
+      : t('log.play', { player: player(event.seat), card: { card: event.card } });
+    case 'choose_suit': return t('log.chooseSuit', { player: player(event.seat), suit: { suit: event.suit } });
+    case 'draw': return event.count === 1
+      ? t('log.drawOne', { player: player(event.seat) })
+      : t('log.drawMany', { player: player(event.seat), count: event.count });
+    case 'pass': return t('log.pass', { player: player(event.seat) });
+    case 'keep': return t('log.keep', { player: player(event.seat) });
+    case 'reshuffle': return t('log.reshuffle', { count: event.deckSize });
+  }
+}
+
+export function serializeLog(events: GameEvent[]): string {
+  const file: LogFile = { version: LOG_VERSION, events };
+  return JSON.stringify(file, null, 2);
+}
+
+// An imported deal must use rules the game offers (a huge shoe would hang the tab while it is
+// built) and, when it has a fixed layout, deal every card of the shoe exactly once.
+function isReplayableDeal(deal: unknown): boolean {
+  if (!isRecord(deal) || deal.type !== 'deal' || !isRecord(deal.rules) || findInvalidRules(deal.rules).length > 0) return false;
+  if (!Array.isArray(deal.seats) || deal.seats.length < MIN_PLAYERS || deal.seats.length > MAX_PLAYERS) return false;
+  const layout = deal.layout;
+  if (layout === undefined) return true;
+  if (!isRecord(layout) || !Array.isArray(layout.hands) || !layout.hands.every(Array.isArray)) return false;
+  if (!Array.isArray(layout.discardPile) || !Array.isArray(layout.deck)) return false;
+  const cards: unknown[] = [...layout.hands.flat(), ...layout.discardPile, ...layout.deck];
+  if (!cards.every(card => isRecord(card) && typeof card.id === 'string')) return false;
+  const dealt = cards as Card[];
+  return isCardConserved(dealt, { ...DEFAULT_RULES, ...deal.rules } as RuleSet) && new Set(dealt.map(c => c.id)).size === dealt.length;
+}
+
+export function parseLog(raw: string): ParsedLog {
+  let file: LogFile;
+  try {
+    file = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: createMessage('log.invalidJson') };
+  }
+  if (!file || file.version !== LOG_VERSION || !Array.isArray(file.events)) {
+    return { ok: false, error: createMessage('log.unsupported') };
+  }
+  if (!isReplayableDeal(file.events[0])) {
+    return { ok: false, error: createMessage('log.unreplayable') };
+  }
+  try {
+    replayLog(file.events);
+  } catch {
+    return { ok: false, error: createMessage('log.unreplayable') };
+  }
+  return { ok: true, events: file.events };
+}
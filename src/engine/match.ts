@@ -0,0 +1,59 @@
+import { GameState, MatchState, SeatConfig } from '../types';
+import { getHandPoints } from './ruleset';
+import { GameSetup } from './rules';
+
+// Scored matches: rounds are ordinary games, and the winner of each round collects the penalty
+// points left in the other hands until somebody reaches the target.
+
+export const MATCH_TARGETS = [100, 500];
+
+export function createMatch(seats: SeatConfig[], target: number, seed: string): MatchState {
+  return {
+    target,
+    seed,
+    seats,
+    scores: seats.map(() => 0),
+    rounds: [],
+    // The first seat leads the first round, as in a single game
+    dealer: seats.length - 1,
+  };
+}
+
+// Seed, seats and dealer of the match's next round.
+export function getRoundSetup(match: MatchState): GameSetup {
+  return { seed: `${match.seed}-${match.rounds.length + 1}`, seats: match.seats, dealer: match.dealer };
+}
+
+export function scoreRound(game: GameState): number[] {
+  const penalties = game.seats.map(s => getHandPoints(s.hand, game.rules));
+  const total = penalties.reduce((sum, points) => sum + points, 0);
+  return game.seats.map((_, seat) => (seat === game.winner ? total - penalties[seat] : 0));
+}
+
+// Adds a finished round to the match and passes the deal on.
+export function recordRound(match: MatchState, game: GameState): MatchState {
+  const points = scoreRound(game);
+  return {
+    ...match,
+    scores: match.scores.map((score, seat) => score + points[seat]),
+    rounds: [...match.rounds, { seed: game.seed, winner: game.winner!, points }],
+    dealer: (match.dealer + 1) % match.seats.length,
+  };
+}
+
+export function isRoundRecorded(match: MatchState, game: GameState): boolean {
+  return match.rounds.some(round => round.seed === game.seed);
+}
+
+export function getMatchWinner(match: MatchState): number | null {
+  const best = getStandings(match)[0];
+  return match.scores[best] >= match.target ? best : null;
+}
+
+// Seats from the highest score down; ties go to the seat that won more rounds.
+export function getStandings(match: MatchState): number[] {
+  const roundsWon = match.seats.map((_, seat) => match.rounds.filter(r => r.winner === seat).length);
+  return match.seats
+    .map((_, seat) => seat)
+    .sort((a, b) => match.scores[b] - match.scores[a] || roundsWon[b] - roundsWon[a] || a - b);
+}
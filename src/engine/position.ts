@@ -0,0 +1,126 @@
+import { Card, GameState, Message, Rank, RuleSet, SeatConfig, Suit, TableLayout } from '../types';
+import { RANKS, SUITS, isJoker } from '../utils/deck';
+import { createMessage } from '../i18n';
+import { createGame } from './rules';
+import { DEFAULT_RULES, getJokerCount, isWild } from './ruleset';
+
+// Compact text notation for a table between turns, for sharing endgames and bug reports:
+//
+//   <hands> <discard pile> <stock> <suit> <turn> [<direction>]
+//
+// Hands are separated by "/", piles are listed bottom first (the stock's last card is drawn
+// next) and "-" stands for an empty list or no named suit. A card is its rank plus h, d, c or
+// s, a joker is "*", e.g. "9h5cKs/7dJs 2c4h5h 10dQh - 0" (shortened: every card of the shoe
+// has to appear exactly once). The direction is "+" (default) or "-".
+
+export interface Position {
+  layout: TableLayout;
+  turn: number;
+}
+
+export type ParsedPosition =
+  | { ok: true; position: Position }
+  | { ok: false; error: Message };
+
+const SUIT_CODES: Record<Suit, string> = { hearts: 'h', diamonds: 'd', clubs: 'c', spades: 's' };
+const SUIT_BY_CODE = Object.fromEntries(SUITS.map(suit => [SUIT_CODES[suit], suit])) as Record<string, Suit>;
+const CARD_PATTERN = /\*|(10|[2-9AJQK])([hdcs])/y;
+const EMPTY = '-';
+
+export function formatCard(card: Card): string {
+  return isJoker(card) ? '*' : `${card.rank}${SUIT_CODES[card.suit]}`;
+}
+
+const cardKey = (card: Card) => (isJoker(card) ? 'joker' : `${card.rank}-${card.suit}`);
+
+function formatCards(cards: Card[]): string {
+  return cards.length > 0 ? cards.map(formatCard).join('') : EMPTY;
+}
+
+// Card codes in order of appearance; null when the text holds anything else. Ids follow
+// createDeck, so duplicates of a multi-deck shoe are numbered by how often they were seen.
+function parseCards(text: string, rules: RuleSet, seen: Map<string, number>): Card[] | null {
+  if (text === EMPTY) return [];
+  const cards: Card[] = [];
+  CARD_PATTERN.lastIndex = 0;
+  while (CARD_PATTERN.lastIndex < text.length) {
+    const match = CARD_PATTERN.exec(text);
+    if (!match) return null;
+    const card: Card = match[0] === '*'
+      ? { id: '', suit: null, rank: 'joker' }
+      : { id: '', suit: SUIT_BY_CODE[match[2]], rank: match[1] as Rank };
+    const key = cardKey(card);
+    const copy = (seen.get(key) ?? 0) + 1;
+    seen.set(key, copy);
+    card.id = isJoker(card) ? `joker-${copy}` : rules.decks > 1 ? `${key}-${copy}` : key;
+    cards.push(card);
+  }
+  return cards;
+}
+
+// Every card of the rule set's shoe exactly once: each rank and suit once per deck plus the
+// jokers.
+export function isCardConserved(cards: Card[], rules: RuleSet): boolean {
+  const counts = new Map<string, number>();
+  cards.forEach(c => counts.set(cardKey(c), (counts.get(cardKey(c)) ?? 0) + 1));
+  const jokers = getJokerCount(rules);
+  if ((counts.get('joker') ?? 0) !== jokers) return false;
+  return counts.size === SUITS.length * RANKS.length + (jokers > 0 ? 1 : 0)
+    && SUITS.every(suit => RANKS.every(rank => counts.get(`${rank}-${suit}`) === rules.decks));
+}
+
+export function parsePosition(text: string, rules: RuleSet = DEFAULT_RULES): ParsedPosition {
+  const fields = text.trim().split(/\s+/);
+  if (fields.length < 5 || fields.length > 6) return { ok: false, error: createMessage('position.malformed') };
+  const [handsField, discardField, stockField, suitField, turnField, directionField = '+'] = fields;
+
+  const seen = new Map<string, number>();
+  const hands = handsField.split('/').map(hand => parseCards(hand, rules, seen));
+  const discardPile = parseCards(discardField, rules, seen);
+  const deck = parseCards(stockField, rules, seen);
+  const currentSuit = suitField === EMPTY ? null : SUITS.find(s => SUIT_CODES[s] === suitField);
+  const turn = Number(turnField);
+  if (hands.includes(null) || !discardPile || !deck || currentSuit === undefined || (directionField !== '+' && directionField !== '-')) {
+    return { ok: false, error: createMessage('position.malformed') };
+  }
+  if (hands.length < 2 || hands.some(hand => hand.length === 0) || !Number.isInteger(turn) || turn < 0 || turn >= hands.length || discardPile.length === 0) {
+    return { ok: false, error: createMessage('position.table') };
+  }
+  // A suit can only be named on top of a wild card
+  if (currentSuit && !isWild(discardPile[discardPile.length - 1], rules)) {
+    return { ok: false, error: createMessage('position.suit') };
+  }
+  if (!isCardConserved([...hands.flat(), ...discardPile, ...deck], rules)) {
+    return { ok: false, error: createMessage('position.cards') };
+  }
+
+  const layout: TableLayout = { hands, discardPile, deck, currentSuit, direction: directionField === '-' ? -1 : 1 };
+  return { ok: true, position: { layout, turn } };
+}
+
+// The notation has no room for a turn in progress: a suit still to be named, a draw penalty
+// waiting, a draw under way or a drawn card to play or keep. Only these states copy exactly.
+export function isBetweenTurns(state: GameState): boolean {
+  return state.status === 'playing' && state.pendingDraw === 0 && state.drawsThisTurn === 0 && state.drawnCardId === null;
+}
+
+// Throws for a state whose cards do not add up, which only a bug can produce. A turn in
+// progress (see isBetweenTurns) comes out as the table without it.
+export function serializePosition(state: GameState): string {
+  const cards = [...state.seats.flatMap(s => s.hand), ...state.discardPile, ...state.deck];
+  if (!isCardConserved(cards, state.rules)) throw new Error('Cards are not conserved');
+  return [
+    state.seats.map(s => formatCards(s.hand)).join('/'),
+    formatCards(state.discardPile),
+    formatCards(state.deck),
+    state.currentSuit ? SUIT_CODES[state.currentSuit] : EMPTY,
+    String(state.turn),
+    state.direction === 1 ? '+' : '-',
+  ].join(' ');
+}
+
+// A game that starts from the position with the given seat on turn.
+export function createPositionGame(position: Position, seats: SeatConfig[], rules: RuleSet = DEFAULT_RULES, seed = 'position'): GameState {
+  const dealer = (position.turn - 1 + seats.length) % seats.length;
+  return createGame({ seed, rules, seats, dealer, layout: position.layout });
+}
@@ -0,0 +1,395 @@
+import { Card, GameAction, GameEvent, GameState, MessageParam, RuleSet, SeatConfig, Suit, TableLayout } from '../types';
+import { SUITS, canPlay, createDeck, shuffle } from '../utils/deck';
+import { RandomFn, createRng, hashSeed, randomSeed } from '../utils/random';
+import { createMessage } from '../i18n';
+import { DEFAULT_RULES, getDrawLimit, getHandPoints, getJokerCount, isDrawFour, isDrawTwo, isReverse, isSkip, isWild } from './ruleset';
+import { DEFAULT_SEATS, getDealSize, nextSeat } from './table';
+
+// Pure, framework-free game rules. Every transition takes a GameState and returns a new one,
+// so the React UI, the AI and any other host share exactly the same logic.
+
+export interface GameSetup {
+  // Without a seed a fresh random one is generated
+  seed?: string;
+  rules?: RuleSet;
+  seats?: SeatConfig[];
+  // The seat after the dealer plays first; by default the last seat deals
+  dealer?: number;
+  // Deal these exact cards instead of shuffling; the seed then only drives reshuffles
+  layout?: TableLayout;
+}
+
+export function getPlayerLabel(state: GameState, seat: number): string {
+  return state.seats[seat].name;
+}
+
+export function getHand(state: GameState, seat: number): Card[] {
+  return state.seats[seat].hand;
+}
+
+function withHand(state: GameState, seat: number, hand: Card[]): GameState {
+  return { ...state, seats: state.seats.map((s, i) => (i === seat ? { ...s, hand } : s)) };
+}
+
+export function getTopCard(state: GameState): Card | null {
+  return state.discardPile.length > 0 ? state.discardPile[state.discardPile.length - 1] : null;
+}
+
+export function createGame({ seed = randomSeed(), rules = DEFAULT_RULES, seats = DEFAULT_SEATS, dealer = seats.length - 1, layout }: GameSetup = {}): GameState {
+  const rng = createRng(hashSeed(seed));
+  const { deck, hands, discardPile } = layout ?? dealShuffled(rng.next, rules, seats.length);
+  const dealtSeats = seats.map((seat, i) => ({ ...seat, hand: hands[i] }));
+  const turn = (dealer + 1) % seats.length;
+
+  return {
+    deck,
+    seats: dealtSeats,
+    discardPile,
+    currentSuit: layout?.currentSuit ?? null,
+    turn,
+    direction: layout?.direction ?? 1,
+    status: 'playing',
+    winner: null,
+    blocked: false,
+    lastAction: createMessage('action.start', { player: dealtSeats[turn].name }),
+    rules,
+    pendingDraw: 0,
+    drawsThisTurn: 0,
+    drawnCardId: null,
+    seed,
+    rngState: rng.getState(),
+    stats: { turns: 0, wildsPlayed: 0, reshuffles: 0 },
+    log: [layout ? { type: 'deal', seed, rules, seats, dealer, layout } : { type: 'deal', seed, rules, seats, dealer }],
+  };
+}
+
+function dealShuffled(random: RandomFn, rules: RuleSet, playerCount: number): TableLayout {
+  const deck = createDeck(random, rules.decks, getJokerCount(rules));
+  const dealSize = getDealSize(rules.handSize, playerCount, deck.length);
+  const hands = Array.from({ length: playerCount }, () => deck.splice(0, dealSize));
+
+  // Find a non-wild card for the start of discard pile
+  let firstCardIndex = deck.findIndex(c => !isWild(c, rules));
+  if (firstCardIndex === -1) firstCardIndex = 0;
+  const discardPile = [deck.splice(firstCardIndex, 1)[0]];
+  return { deck, hands, discardPile };
+}
+
+export function isPlayableCard(state: GameState, card: Card): boolean {
+  // While a draw penalty is pending the only way out besides drawing is stacking another 2 or
+  // a draw-four joker
+  if (state.pendingDraw > 0) {
+    return state.rules.stacking && (isDrawTwo(card, state.rules) || isDrawFour(card, state.rules));
+  }
+  return canPlay(card, getTopCard(state), state.currentSuit, state.rules.wildRank);
+}
+
+export function getPlayableCards(state: GameState, seat: number = state.turn): Card[] {
+  // Once the player on turn has drawn, only the drawn card may still be played
+  if (seat === state.turn && state.drawsThisTurn > 0) {
+    return getHand(state, seat).filter(card => card.id === state.drawnCardId);
+  }
+  return getHand(state, seat).filter(card => isPlayableCard(state, card));
+}
+
+// A card can be drawn while the stock has one, or the discard pile can be shuffled into a new stock.
+export function canDraw(state: GameState): boolean {
+  return state.deck.length > 0 || state.discardPile.length > 1;
+}
+
+// Seats ordered from winner to last for a blocked game: the rule set's tiebreak first, the
+// other measure second, seat order last.
+export function rankBlockedSeats(state: GameState): number[] {
+  const measures = state.seats.map(s => ({ cards: s.hand.length, points: getHandPoints(s.hand, state.rules) }));
+  const [primary, secondary] = state.rules.blockedTiebreak === 'lowest_points'
+    ? (['points', 'cards'] as const)
+    : (['cards', 'points'] as const);
+  return state.seats
+    .map((_, seat) => seat)
+    .sort((a, b) => measures[a][primary] - measures[b][primary] || measures[a][secondary] - measures[b][secondary] || a - b);
+}
+
+export function getLegalActions(state: GameState): GameAction[] {
+  if (state.status === 'suit_selection') {
+    return SUITS.map(suit => ({ type: 'choose_suit', suit }));
+  }
+  if (state.status !== 'playing') return [];
+
+  const actions: GameAction[] = [];
+  for (const card of getPlayableCards(state)) {
+    if (isWild(card, state.rules)) {
+      SUITS.forEach(suit => actions.push({ type: 'play', cardId: card.id, suit }));
+    } else {
+      actions.push({ type: 'play', cardId: card.id });
+    }
+  }
+  if (isLegalAction(state, { type: 'draw' })) {
+    actions.push({ type: 'draw' });
+  }
+  if (state.drawnCardId) {
+    actions.push({ type: 'keep' });
+  } else if (actions.length === 0) {
+    actions.push({ type: 'pass' });
+  }
+  return actions;
+}
+
+// Actions can come off the wire, so suits and action types are checked rather than trusted
+export function isLegalAction(state: GameState, action: GameAction): boolean {
+  switch (action.type) {
+    case 'play': {
+      if (state.status !== 'playing') return false;
+      const card = getPlayableCards(state).find(c => c.id === action.cardId);
+      if (!card) return false;
+      if (!action.suit) return true;
+      return isWild(card, state.rules) && SUITS.includes(action.suit);
+    }
+    case 'choose_suit':
+      return state.status === 'suit_selection' && SUITS.includes(action.suit);
+    case 'draw':
+      if (state.status !== 'playing' || !canDraw(state)) return false;
+      // Mid-draw the player goes on until a playable card turns up or the policy's limit is hit
+      if (state.pendingDraw > 0 || state.drawsThisTurn > 0) return state.drawnCardId === null;
+      return state.rules.voluntaryDraw || getPlayableCards(state).length === 0;
+    case 'keep':
+      return state.status === 'playing' && state.drawnCardId !== null;
+    case 'pass':
+      return state.status === 'playing' && !canDraw(state) && getPlayableCards(state).length === 0 && state.drawnCardId === null;
+    default:
+      return false;
+  }
+}
+
+// Illegal actions leave the state untouched; use isLegalAction to tell them apart.
+export function applyAction(state: GameState, action: GameAction): GameState {
+  if (!isLegalAction(state, action)) return state;
+
+  const resolved = resolveAction(state, action);
+  const next = { ...resolved, log: [...state.log, ...logEvents(state, action, resolved)] };
+  // A turn is over unless the player still has to name a suit or is in the middle of drawing
+  const keepsTurn = next.status === 'suit_selection' || next.drawsThisTurn > 0;
+  return keepsTurn ? next : { ...next, stats: { ...next.stats, turns: next.stats.turns + 1 } };
+}
+
+function logEvents(state: GameState, action: GameAction, next: GameState): GameEvent[] {
+  const seat = state.turn;
+  const events: GameEvent[] = [];
+  switch (action.type) {
+    case 'play': {
+      const card = getHand(state, seat).find(c => c.id === action.cardId)!;
+      events.push(action.suit ? { type: 'play', seat, card, suit: action.suit } : { type: 'play', seat, card });
+      break;
+    }
+    case 'choose_suit':
+      events.push({ type: 'choose_suit', seat, suit: action.suit });
+      break;
+    case 'draw':
+      events.push({ type: 'draw', seat, count: getHand(next, seat).length - getHand(state, seat).length });
+      break;
+    case 'pass':
+      events.push({ type: 'pass', seat });
+      break;
+    case 'keep':
+      events.push({ type: 'keep', seat });
+      break;
+  }
+  for (let i = state.stats.reshuffles; i < next.stats.reshuffles; i++) {
+    events.push({ type: 'reshuffle', deckSize: next.deck.length });
+  }
+  return events;
+}
+
+function resolveAction(state: GameState, action: GameAction): GameState {
+  switch (action.type) {
+    case 'play': return playCard(state, action.cardId, action.suit);
+    case 'choose_suit': return chooseSuit(state, action.suit);
+    case 'draw': return state.pendingDraw > 0 ? drawPenalty(state) : drawCard(state);
+    case 'pass': return pass(state);
+    case 'keep': return keep(state);
+  }
+}
+
+function playCard(state: GameState, cardId: string, chosenSuit?: Suit): GameState {
+  const seat = state.turn;
+  const hand = getHand(state, seat);
+  const card = hand.find(c => c.id === cardId)!;
+  const newHand = hand.filter(c => c.id !== cardId);
+
+  const next: GameState = {
+    ...withHand(state, seat, newHand),
+    discardPile: [...state.discardPile, card],
+    currentSuit: null,
+    drawsThisTurn: 0,
+    drawnCardId: null,
+    stats: isWild(card, state.rules) ? { ...state.stats, wildsPlayed: state.stats.wildsPlayed + 1 } : state.stats,
+  };
+
+  if (newHand.length === 0) {
+    return { ...next, status: 'game_over', winner: seat, lastAction: createMessage('action.won', { player: getPlayerLabel(state, seat) }) };
+  }
+
+  if (isWild(card, state.rules) && !chosenSuit) {
+    return { ...next, status: 'suit_selection' };
+  }
+
+  const played = { player: getPlayerLabel(state, seat), card: { card } };
+
+  if (isDrawFour(card, state.rules)) {
+    return { ...next, ...drawFour(state, chosenSuit, played) };
+  }
+
+  if (isDrawTwo(card, state.rules)) {
+    const pendingDraw = state.pendingDraw + 2;
+    const victim = nextSeat(state);
+    return { ...next, pendingDraw, turn: victim, lastAction: createMessage('action.playedDrawTwo', { ...played, victim: getPlayerLabel(state, victim), count: pendingDraw }) };
+  }
+
+  if (isSkip(card, state.rules)) {
+    return { ...next, turn: nextSeat(state, seat, 2), lastAction: createMessage('action.playedSkip', { ...played, victim: getPlayerLabel(state, nextSeat(state)) }) };
+  }
+
+  if (isReverse(card, state.rules)) {
+    // With only two seats a reverse hands the turn straight back, just like a skip
+    if (state.seats.length === 2) {
+      return { ...next, lastAction: createMessage('action.playedSkip', { ...played, victim: getPlayerLabel(state, nextSeat(state)) }) };
+    }
+    const reversed: GameState = { ...next, direction: state.direction === 1 ? -1 : 1 };
+    return { ...reversed, turn: nextSeat(reversed, seat), lastAction: createMessage('action.playedReverse', played) };
+  }
+
+  return {
+    ...next,
+    currentSuit: chosenSuit || null,
+    turn: nextSeat(state),
+    lastAction: chosenSuit ? createMessage('action.playedWild', { ...played, suit: { suit: chosenSuit } }) : createMessage('action.played', played),
+  };
+}
+
+function chooseSuit(state: GameState, suit: Suit): GameState {
+  const card = getTopCard(state)!;
+  const played = { player: getPlayerLabel(state, state.turn), card: { card } };
+  if (isDrawFour(card, state.rules)) {
+    return { ...state, status: 'playing', ...drawFour(state, suit, played) };
+  }
+  return {
+    ...state,
+    currentSuit: suit,
+    status: 'playing',
+    turn: nextSeat(state),
+    lastAction: createMessage('action.playedWild', { player: getPlayerLabel(state, state.turn), card: { card }, suit: { suit } }),
+  };
+}
+
+// A draw-four joker names the suit and hands the next seat a penalty of four more cards
+function drawFour(state: GameState, suit: Suit, played: Record<string, MessageParam>): Partial<GameState> {
+  const pendingDraw = state.pendingDraw + 4;
+  const victim = nextSeat(state);
+  return {
+    currentSuit: suit,
+    pendingDraw,
+    turn: victim,
+    lastAction: createMessage('action.playedDrawFour', { ...played, suit: { suit }, victim: getPlayerLabel(state, victim), count: pendingDraw }),
+  };
+}
+
+function takeTopCard(state: GameState, seat: number): GameState {
+  const newDeck = [...state.deck];
+  const drawnCard = newDeck.pop()!;
+  return {
+    ...withHand(state, seat, [...getHand(state, seat), drawnCard]),
+    deck: newDeck,
+  };
+}
+
+// A playable card waits for the player to play or keep it. Otherwise the player draws again
+// while the draw policy allows it, or the turn passes.
+function drawCard(state: GameState): GameState {
+  const seat = state.turn;
+  // The stock may have run dry while the discard pile grew back
+  const stocked = reshuffleIfNeeded(state);
+  const card = stocked.deck[stocked.deck.length - 1];
+  const next: GameState = {
+    ...takeTopCard(stocked, seat),
+    drawsThisTurn: state.drawsThisTurn + 1,
+    lastAction: createMessage('action.drew', { player: getPlayerLabel(state, seat) }),
+  };
+
+  if (isPlayableCard(next, card)) {
+    return reshuffleIfNeeded({ ...next, drawnCardId: card.id });
+  }
+  const drawsAgain = next.drawsThisTurn < getDrawLimit(state.rules) && canDraw(next);
+  return reshuffleIfNeeded(drawsAgain ? next : { ...next, drawsThisTurn: 0, turn: nextSeat(state) });
+}
+
+function keep(state: GameState): GameState {
+  return {
+    ...state,
+    drawsThisTurn: 0,
+    drawnCardId: null,
+    turn: nextSeat(state),
+    lastAction: createMessage('action.kept', { player: getPlayerLabel(state, state.turn) }),
+  };
+}
+
+// Takes all stacked penalty cards (as many as the piles still hold) and ends the turn.
+function drawPenalty(state: GameState): GameState {
+  const seat = state.turn;
+  let next = state;
+  let drawn = 0;
+  while (drawn < state.pendingDraw && canDraw(next)) {
+    next = reshuffleIfNeeded(takeTopCard(reshuffleIfNeeded(next), seat));
+    drawn++;
+  }
+
+  return {
+    ...next,
+    pendingDraw: 0,
+    turn: nextSeat(state),
+    lastAction: createMessage('action.penalty', { player: getPlayerLabel(state, seat), count: drawn }),
+  };
+}
+
+function pass(state: GameState): GameState {
+  const next: GameState = {
+    ...state,
+    pendingDraw: 0,
+    turn: nextSeat(state),
+    lastAction: createMessage('action.passed', { player: getPlayerLabel(state, state.turn) }),
+  };
+  return isBlocked(next) ? endBlockedGame(next) : next;
+}
+
+// Nothing will ever change again: no seat holds a playable card and there is nothing to draw.
+function isBlocked(state: GameState): boolean {
+  return !canDraw(state) && state.seats.every((_, seat) => getPlayableCards(state, seat).length === 0);
+}
+
+function endBlockedGame(state: GameState): GameState {
+  const winner = rankBlockedSeats(state)[0];
+  return {
+    ...state,
+    status: 'game_over',
+    winner,
+    blocked: true,
+    lastAction: createMessage('action.blocked', { player: getPlayerLabel(state, winner), tiebreak: createMessage(`tiebreak.${state.rules.blockedTiebreak}`) }),
+  };
+}
+
+// Reshuffle discard pile back into deck when deck is low. Only the stock and the discard pile
+// are involved, however many hands are out.
+function reshuffleIfNeeded(state: GameState): GameState {
+  if (state.deck.length > 2 || state.discardPile.length <= 1) return state;
+
+  const topCard = state.discardPile[state.discardPile.length - 1];
+  const restOfDiscard = state.discardPile.slice(0, -1);
+  const rng = createRng(state.rngState);
+
+  return {
+    ...state,
+    deck: shuffle([...state.deck, ...restOfDiscard], rng.next),
+    discardPile: [topCard],
+    rngState: rng.getState(),
+    stats: { ...state.stats, reshuffles: state.stats.reshuffles + 1 },
+    lastAction: createMessage('action.reshuffled'),
+  };
+}
@@ -0,0 +1,110 @@
+import { BlockedTiebreak, Card, DrawPolicy, JokerRule, RuleSet } from '../types';
+import { RANKS, SUITS, isJoker } from '../utils/deck';
+import { isRecord } from '../utils/guards';
+
+export const DEFAULT_RULES: RuleSet = {
+  wildRank: '8',
+  handSize: 8,
+  drawTwo: false,
+  stacking: false,
+  skip: false,
+  reverse: false,
+  blockedTiebreak: 'fewest_cards',
+  drawPolicy: 'draw_one',
+  drawLimit: 3,
+  voluntaryDraw: false,
+  decks: 1,
+  jokers: 'none',
+};
+
+export const HAND_SIZE_OPTIONS = [5, 6, 7, 8, 9, 10];
+
+export const DRAW_LIMIT_OPTIONS = [2, 3, 4, 5];
+
+export const DECK_OPTIONS = [1, 2, 3];
+
+export const JOKER_RULES: JokerRule[] = ['none', 'wild', 'draw_four'];
+
+const JOKERS_PER_DECK = 2;
+
+export function getJokerCount(rules: RuleSet): number {
+  return rules.jokers === 'none' ? 0 : JOKERS_PER_DECK * rules.decks;
+}
+
+// Every card in play: the stock, the discard pile and all hands together
+export function getDeckSize(rules: RuleSet): number {
+  return SUITS.length * RANKS.length * rules.decks + getJokerCount(rules);
+}
+
+export const DRAW_POLICIES: DrawPolicy[] = ['draw_one', 'until_playable', 'up_to_n'];
+
+export const BLOCKED_TIEBREAKS: BlockedTiebreak[] = ['fewest_cards', 'lowest_points'];
+
+const BOOLEANS = [true, false];
+
+// The values each rule may take, the same ones the rule picker offers
+export const RULE_OPTIONS: Record<keyof RuleSet, readonly unknown[]> = {
+  wildRank: RANKS,
+  handSize: HAND_SIZE_OPTIONS,
+  drawTwo: BOOLEANS,
+  stacking: BOOLEANS,
+  skip: BOOLEANS,
+  reverse: BOOLEANS,
+  blockedTiebreak: BLOCKED_TIEBREAKS,
+  drawPolicy: DRAW_POLICIES,
+  drawLimit: DRAW_LIMIT_OPTIONS,
+  voluntaryDraw: BOOLEANS,
+  decks: DECK_OPTIONS,
+  jokers: JOKER_RULES,
+};
+
+export function isRuleSet(value: unknown): value is RuleSet {
+  return isRecord(value) && (Object.keys(RULE_OPTIONS) as (keyof RuleSet)[]).every(key => RULE_OPTIONS[key].includes(value[key]));
+}
+
+// Rules set to a value the game does not offer; unknown keys are not checked here
+export function findInvalidRules(rules: Record<string, unknown>): (keyof RuleSet)[] {
+  return (Object.keys(RULE_OPTIONS) as (keyof RuleSet)[]).filter(key => key in rules && !RULE_OPTIONS[key].includes(rules[key]));
+}
+
+// Most cards a player may draw in one turn
+export function getDrawLimit(rules: RuleSet): number {
+  switch (rules.drawPolicy) {
+    case 'draw_one': return 1;
+    case 'up_to_n': return rules.drawLimit;
+    case 'until_playable': return Infinity;
+  }
+}
+
+// Penalty value of a card left in hand: wilds 50, faces 10, aces 1, other cards their number.
+export function getCardPoints(card: Card, rules: RuleSet): number {
+  if (isWild(card, rules)) return 50;
+  if (card.rank === 'J' || card.rank === 'Q' || card.rank === 'K') return 10;
+  if (card.rank === 'A') return 1;
+  return Number(card.rank);
+}
+
+export function getHandPoints(hand: Card[], rules: RuleSet): number {
+  return hand.reduce((sum, card) => sum + getCardPoints(card, rules), 0);
+}
+
+export function isWild(card: Card, rules: RuleSet): boolean {
+  return card.rank === rules.wildRank || isJoker(card);
+}
+
+export function isDrawFour(card: Card, rules: RuleSet): boolean {
+  return rules.jokers === 'draw_four' && isJoker(card);
+}
+
+// Special effects only apply to non-wild cards, so a wild Q never skips.
+export function isDrawTwo(card: Card, rules: RuleSet): boolean {
+  return rules.drawTwo && card.rank === '2' && !isWild(card, rules);
+}
+
+export function isSkip(card: Card, rules: RuleSet): boolean {
+  return rules.skip && card.rank === 'Q' && !isWild(card, rules);
+}
+
+export function isReverse(card: Card, rules: RuleSet): boolean {
+  return rules.reverse && card.rank === 'A' && !isWild(card, rules);
+}
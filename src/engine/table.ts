@@ -0,0 +1,38 @@
+import { GameState, SeatConfig, SeatKind } from '../types';
+import { t } from '../i18n';
+
+export const MIN_PLAYERS = 2;
+export const MAX_PLAYERS = 6;
+
+export const DEFAULT_SEATS: SeatConfig[] = nameSeats(['human', 'ai']);
+
+// Gives every seat a display name in the current language: the first human is "you", the rest
+// are numbered.
+export function nameSeats(kinds: SeatKind[]): SeatConfig[] {
+  const aiCount = kinds.filter(kind => kind === 'ai').length;
+  let humans = 0;
+  let ais = 0;
+  return kinds.map((kind, i) => {
+    if (kind === 'human') {
+      humans++;
+      return { kind, name: humans === 1 ? t('seat.you') : t('seat.player', { number: i + 1 }) };
+    }
+    ais++;
+    return { kind, name: aiCount === 1 ? 'AI' : `AI ${ais}` };
+  });
+}
+
+// Keep at least half of the deck in the stock so big tables don't run dry straight away.
+export function getDealSize(handSize: number, playerCount: number, deckSize: number): number {
+  return Math.max(1, Math.min(handSize, Math.floor(deckSize / 2 / playerCount)));
+}
+
+// Seat that is `steps` places away from `from` in the current direction of play.
+export function nextSeat(state: GameState, from: number = state.turn, steps = 1): number {
+  const count = state.seats.length;
+  return (((from + state.direction * steps) % count) + count) % count;
+}
+
+export function isHumanSeat(state: GameState, seat: number): boolean {
+  return state.seats[seat]?.kind === 'human';
+}
@@ -0,0 +1,79 @@
+import { Card } from '../types';
+import { RANKS, SUITS } from '../utils/deck';
+import { isRecord } from '../utils/guards';
+import { createPreferenceStore } from '../preferences';
+
+// How the viewer's hand is laid out, remembered per browser. Components read it through
+// useHandArrangement(); the manual order itself belongs to the game being played.
+
+// 'manual' keeps draw order, rearranged by dragging
+export type HandSort = 'manual' | 'suit' | 'rank' | 'playable';
+
+export interface HandArrangement {
+  sort: HandSort;
+  // Keeps each suit together, with a small gap between suits
+  groupBySuit: boolean;
+}
+
+export const HAND_SORTS: HandSort[] = ['manual', 'suit', 'rank', 'playable'];
+
+// How long freshly drawn cards stay highlighted
+export const FRESH_CARD_MS = 1500;
+
+export const DEFAULT_HAND_ARRANGEMENT: HandArrangement = { sort: 'manual', groupBySuit: false };
+
+const HAND_KEY = 'crazy8.hand';
+
+function isHandArrangement(value: unknown): value is HandArrangement {
+  return isRecord(value) && HAND_SORTS.includes(value.sort as HandSort) && typeof value.groupBySuit === 'boolean';
+}
+
+export const handArrangementStore = createPreferenceStore(HAND_KEY, DEFAULT_HAND_ARRANGEMENT, isHandArrangement);
+
+export const getHandArrangement = handArrangementStore.get;
+export const setHandArrangement = handArrangementStore.set;
+
+// Jokers have no suit and go after all four
+const suitIndex = (card: Card) => (card.suit ? SUITS.indexOf(card.suit) : SUITS.length);
+const rankIndex = (card: Card) => (card.rank === 'joker' ? RANKS.length : RANKS.indexOf(card.rank));
+const bySuit = (a: Card, b: Card) => suitIndex(a) - suitIndex(b) || rankIndex(a) - rankIndex(b);
+const byRank = (a: Card, b: Card) => rankIndex(a) - rankIndex(b) || suitIndex(a) - suitIndex(b);
+
+// The hand in display order. `order` holds card ids in the player's manual order; cards it does
+// not know yet (fresh draws) follow in the order they were drawn.
+export function arrangeHand(hand: Card[], arrangement: HandArrangement, order: string[], playableIds: Set<string>): Card[] {
+  const manualIndex = (card: Card) => {
+    const index = order.indexOf(card.id);
+    return index === -1 ? order.length + hand.indexOf(card) : index;
+  };
+  const sorted = [...hand];
+  switch (arrangement.sort) {
+    case 'manual':
+      sorted.sort((a, b) => manualIndex(a) - manualIndex(b));
+      break;
+    case 'suit':
+      sorted.sort(bySuit);
+      break;
+    case 'rank':
+      sorted.sort(byRank);
+      break;
+    case 'playable':
+      sorted.sort((a, b) => Number(playableIds.has(b.id)) - Number(playableIds.has(a.id)) || bySuit(a, b));
+      break;
+  }
+  // Array sort is stable, so each suit keeps the order chosen above
+  return arrangement.groupBySuit ? sorted.sort((a, b) => suitIndex(a) - suitIndex(b)) : sorted;
+}
+
+// Whether the card at `index` of an arranged hand opens a new suit group
+export function startsSuitGroup(hand: Card[], index: number, arrangement: HandArrangement): boolean {
+  return arrangement.groupBySuit && index > 0 && hand[index].suit !== hand[index - 1].suit;
+}
+
+// The ids in display order after dragging one card to another's place
+export function moveCard(hand: Card[], from: number, to: number): string[] {
+  const ids = hand.map(c => c.id);
+  const [moved] = ids.splice(from, 1);
+  ids.splice(to, 0, moved);
+  return ids;
+}
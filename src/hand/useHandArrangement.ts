@@ -0,0 +1,7 @@
+import { usePreference } from '../preferences/usePreference';
+import { handArrangementStore } from './index';
+
+// The saved hand arrangement; the calling component re-renders whenever it changes.
+export function useHandArrangement() {
+  return usePreference(handArrangementStore);
+}
@@ -0,0 +1,375 @@
+import { MessageKey } from './zh';
+
+export const en: Record<MessageKey, string> = {
+  'app.title': 'Crazy Eights',
+  'app.tagline': 'The classic card battle. Match the suit or the rank, and turn the game around with a wild 8!',
+  'app.language': 'Language',
+  'common.close': 'Close',
+
+  'suit.hearts': 'Hearts',
+  'suit.diamonds': 'Diamonds',
+  'suit.clubs': 'Clubs',
+  'suit.spades': 'Spades',
+  'rank.A': 'Ace',
+  'rank.J': 'Jack',
+  'rank.Q': 'Queen',
+  'rank.K': 'King',
+  'rank.joker': 'Joker',
+  'card.name': '{rank} of {suit}',
+  'card.playable': '{card}, playable',
+  'card.faceDown': 'Face-down card',
+
+  'seat.you': 'You',
+  'seat.player': 'Player {number}',
+  'seat.profileName': 'Player',
+
+  'action.welcome': 'Welcome to Q Crazy Eights!',
+  'action.start': 'Game on! {player} to play.',
+  'action.won': '{player} won!',
+  'action.played': '{player} played the {card}',
+  'action.playedWild': '{player} played the {card}. New suit: {suit}',
+  'action.playedDrawTwo': '{player} played the {card}. {victim} must draw {count}!',
+  'action.playedDrawFour': '{player} played the {card}. New suit: {suit}. {victim} must draw {count}!',
+  'action.playedSkip': '{player} played the {card}. {victim} got skipped!',
+  'action.playedReverse': '{player} played the {card}. Direction reversed!',
+  'action.drew': '{player} drew a card.',
+  'action.kept': '{player} kept the drawn card.',
+  'action.penalty': '{player} took a penalty of {count}.',
+  'action.passed': '{player} passed (nothing left to draw)',
+  'action.blocked': 'Deadlock: nobody can play or draw. {player} wins on {tiebreak}!',
+  'action.reshuffled': 'The stock ran out; the discard pile was reshuffled.',
+  'action.opponentLeft': '{player} left; {winner} won.',
+  'action.yourTurn': 'Your turn.',
+  'action.turnOf': '{player} to play.',
+
+  'log.title': 'Moves ({count})',
+  'log.deal': 'Deal: {count} players, seed {seed}',
+  'log.hiddenSeed': '(revealed after the game)',
+  'log.play': '{player} played the {card}',
+  'log.playWild': '{player} played the {card}, new suit: {suit}',
+  'log.chooseSuit': '{player} chose {suit}',
+  'log.drawOne': '{player} drew a card',
+  'log.drawMany': '{player} drew {count} cards',
+  'log.pass': '{player} passed',
+  'log.keep': '{player} kept the drawn card',
+  'log.reshuffle': 'Discard pile reshuffled into the stock ({count} cards)',
+  'log.invalidJson': 'The file is not valid JSON.',
+  'log.unsupported': 'Unsupported game record format.',
+  'log.unreplayable': 'The game record cannot be replayed under the rules.',
+
+  'move.play': 'Play the {card}',
+  'move.playWild': 'Play the {card}, naming {suit}',
+  'move.playUnknown': 'Play a card',
+  'move.chooseSuit': 'Name {suit}',
+  'move.draw': 'Draw',
+  'move.drawPenalty': 'Draw {count} penalty cards',
+  'move.keep': 'Keep the drawn card',
+  'move.pass': 'Pass',
+
+  'board.deckLeft': '{count} left',
+  'hand.sort': 'Sort hand',
+  'hand.group': 'Group suits',
+  'handSort.manual': 'My order',
+  'handSort.suit': 'By suit',
+  'handSort.rank': 'By rank',
+  'handSort.playable': 'Playable first',
+  'board.copyPosition': 'Copy position',
+  'board.positionCopied': 'Position copied',
+  'board.positionMidTurn': 'A position can be copied once the turn in progress is over',
+  'board.seed': 'Seed',
+  'board.confirmQuit': 'Leave this game and go back to the main menu?',
+  'board.drawPile': 'Stock, {count} left',
+  'board.empty': 'Empty',
+  'board.drawPenalty': 'Draw {count}',
+  'board.drawAgain': 'Draw again',
+  'board.draw': 'Draw',
+  'board.currentSuit': 'Suit: {suit}',
+  'board.yourHand': 'Your hand',
+  'board.seatHand': "{player}'s hand",
+  'board.handLabel': 'Hand. Use the arrow keys to pick a card and Enter to play it',
+  'board.pass': 'No moves, pass',
+  'board.thinking': 'Thinking…',
+  'board.hint': 'Hint',
+  'board.drewPlayable': 'You drew a playable card:',
+  'board.playDrawn': 'Play it',
+  'board.keepDrawn': 'Keep it',
+  'board.hintMove': '{move} · {percent}% to win',
+  'board.newCard': 'New',
+  'board.recommended': 'Best',
+  'board.timeLeft': '{seconds} s left',
+  'board.handoff': 'Pass the device to {player} and tap to see the hand',
+  'board.turn': 'Turn: {player}',
+  'board.dealer': 'Dealer: {player}',
+  'board.direction': 'Direction: {direction}',
+  'board.clockwise': 'clockwise',
+  'board.counterclockwise': 'counterclockwise',
+  'board.status': 'Status: {status}',
+  'board.statusPlaying': 'playing',
+  'board.statusSuit': 'choosing a suit',
+  'board.statusOver': 'over',
+  'board.opponentOffline': 'Opponent disconnected, waiting for them to return…',
+
+  'menu.label': 'Main menu',
+  'menu.start': 'Start game',
+  'menu.continue': 'Continue',
+  'menu.tutorial': 'Tutorial',
+  'menu.puzzles': 'Puzzles',
+  'menu.ladder': 'Ladder',
+  'menu.seedPlaceholder': 'Seed (blank for random)',
+  'menu.daily': 'Daily deal',
+  'menu.tableTalkOn': 'Table talk on',
+  'menu.tableTalkOff': 'Table talk off',
+  'menu.single': 'Single game',
+  'menu.matchTarget': 'Match to {target}',
+  'menu.stats': 'Stats',
+  'menu.importReplay': 'Import replay',
+  'menu.lastSeed': 'Last seed: {seed} (click to replay)',
+  'menu.rulesTitle': 'Rules',
+  'menu.rulesBody': 'Match suit or rank',
+  'menu.wildTitle': 'Wild card',
+  'menu.wildBody': '{rank} changes the suit',
+
+  'save.corrupt': 'The saved game is damaged and cannot be continued.',
+  'save.outdated': 'The saved game is from an older version and cannot be continued.',
+
+  'suitPicker.label': 'Choose a suit',
+  'suitPicker.title': 'Crazy Eight!',
+  'suitPicker.prompt': 'Pick the new suit',
+
+  'gameOver.label': 'Game over',
+  'gameOver.loss': 'Defeat',
+  'gameOver.win': 'Victory!',
+  'gameOver.seatWon': '{player} won!',
+  'gameOver.winBody': '{player} emptied the whole hand. Well played!',
+  'gameOver.lossBody': '{player} was faster this time. Try again?',
+  'gameOver.tiebreak': 'Deadlock decided by: {tiebreak}',
+  'gameOver.seatHand': 'Cards: {count} · {points} pts',
+  'gameOver.roundScores': 'Round scores · first to {target} wins',
+  'gameOver.pointsLeft': '{points} pts left',
+  'gameOver.standings': 'Final standings',
+  'gameOver.nextRound': 'Next round',
+  'gameOver.playAgain': 'Play again',
+  'gameOver.ladderRating': 'Ladder rating {rating} ({change})',
+  'gameOver.backToLadder': 'Back to the ladder',
+  'gameOver.replay': 'Replay game',
+  'gameOver.review': 'AI review',
+
+  'rules.title': 'House rules',
+  'rules.drawTwo': '2 draws two',
+  'rules.stacking': 'Stack 2s',
+  'rules.skip': 'Q skips',
+  'rules.reverse': 'A reverses',
+  'rules.voluntaryDraw': 'Draw any time',
+  'rules.wildRank': 'Wild card',
+  'rules.handSize': 'Hand size',
+  'rules.drawPolicy': 'Drawing',
+  'rules.blockedTiebreak': 'Deadlock',
+  'rules.decks': 'Decks',
+  'rules.jokers': 'Jokers',
+  'drawPolicy.draw_one': 'Draw one',
+  'drawPolicy.until_playable': 'Until playable',
+  'drawPolicy.up_to_n': 'Up to N',
+  'jokers.none': 'None',
+  'jokers.wild': 'Wild',
+  'jokers.draw_four': 'Draw four',
+  'tiebreak.fewest_cards': 'fewest cards',
+  'tiebreak.lowest_points': 'lowest points',
+
+  'theme.title': 'Card style',
+  'theme.face': 'Faces',
+  'theme.back': 'Backs',
+  'theme.size': 'Size',
+  'cardFace.classic': 'Red & black',
+  'cardFace.four_color': 'Four-color',
+  'cardFace.high_contrast': 'High contrast',
+  'cardBack.indigo': 'Indigo',
+  'cardBack.crimson': 'Crimson',
+  'cardBack.lattice': 'Lattice',
+  'cardBack.midnight': 'Midnight',
+  'cardSize.normal': 'Standard',
+  'cardSize.compact': 'Compact',
+
+  'pacing.title': 'Pacing',
+  'pacing.speed': 'Game speed',
+  'pacing.skipAnimation': 'Skip animations',
+  'pacing.turnClock': 'Turn clock',
+  'pacing.off': 'Off',
+  'pacing.seconds': '{seconds} s',
+  'pacing.timeoutMove': 'On timeout',
+  'speed.instant': 'Instant',
+  'speed.fast': 'Fast',
+  'speed.normal': 'Normal',
+  'speed.slow': 'Slow',
+  'timeoutMove.draw': 'Draw',
+  'timeoutMove.first_play': 'First legal play',
+
+  'tutorial.lesson': 'Lesson {number}/{count}',
+  'tutorial.exit': 'Leave tutorial',
+  'tutorial.next': 'Next lesson',
+  'tutorial.finish': 'Finish tutorial',
+  'tutorial.blocked': 'Not in this lesson. Follow the hint.',
+  'tutorial.matchSuit.hint': 'The discard pile shows the {top}. Play a card of the same suit: tap your {card}.',
+  'tutorial.matchSuit.done': 'Same suit means you can play it.',
+  'tutorial.matchRank.hint': 'The discard pile shows the {top}. The same rank works too, whatever the suit: tap your {card}.',
+  'tutorial.matchRank.done': 'Same rank means you can play it, and the suit changes with it.',
+  'tutorial.wild.hint': 'Nothing follows the {top}, but an 8 is wild and always playable: tap your {card}.',
+  'tutorial.wild.choose': 'After an 8 you name the new suit. Pick the one you hold most of, like {suit}.',
+  'tutorial.wild.done': 'This badge shows the suit to follow now: {suit}. The next player must play it or another 8.',
+  'tutorial.draw.hint': 'When nothing fits, draw a card from the stock. Tap the stock.',
+  'tutorial.draw.play': 'The {card} you drew fits. Play it right away.',
+  'tutorial.draw.done': 'A drawn card that fits can be played at once; otherwise the turn moves on.',
+  'tutorial.reshuffle.hint': 'Only {count} cards are left in the stock. Draw once more and watch.',
+  'tutorial.reshuffle.done': 'When the stock runs out, the discard pile except its top card is shuffled into a new stock.',
+  'lesson.match_suit': 'Follow the suit',
+  'lesson.match_rank': 'Follow the rank',
+  'lesson.wild': 'The wild 8',
+  'lesson.draw': 'Drawing when stuck',
+  'lesson.reshuffle': 'The reshuffle',
+
+  'ladder.title': 'AI ladder',
+  'ladder.intro': 'Beat each opponent one-on-one to unlock the next. Ratings for you and every AI move after each ladder game.',
+  'ladder.you': 'You',
+  'ladder.games': '{count} games',
+  'ladder.challenge': 'Challenge',
+  'ladder.beaten': 'Beaten',
+  'ladder.locked': 'Locked',
+  'personality.pip': 'Still learning: often plays whatever comes to hand.',
+  'personality.mira': 'Switches suits at every chance and spends 8s freely.',
+  'personality.rosa': 'Hoards 8s until nothing else fits.',
+  'personality.bruno': 'Dumps high cards first and keeps 8s in reserve.',
+  'personality.vex': 'Hoards 8s, switches suits and sheds points. Rarely slips.',
+  'puzzle.title': 'Puzzles',
+  'puzzle.intro': 'Win from the given position within the turn limit. The AI answers the same way every time.',
+  'puzzle.winIn': 'Win in {turns}',
+  'puzzle.players': '{count} players',
+  'puzzle.custom': 'Your own position',
+  'puzzle.customHint': 'Paste a position copied from a game. It is played with the rules set in the menu.',
+  'puzzle.customTurns': 'Turns',
+  'puzzle.play': 'Play',
+  'puzzle.goal': 'Win within {turns} of your turns',
+  'puzzle.progress': 'Turn {used}/{turns}',
+  'puzzle.solved': 'Solved!',
+  'puzzle.failed': 'Not this time. The AI got away.',
+  'puzzle.retry': 'Retry',
+  'puzzle.next': 'Next puzzle',
+  'puzzle.exit': 'Leave puzzle',
+  'puzzle.two_to_go': 'Two to go',
+  'puzzle.bridge': 'The bridge',
+  'puzzle.under_the_queen': 'Under the queen',
+  'puzzle.penalty_box': 'Penalty box',
+  'puzzle.long_way_home': 'The long way home',
+  'puzzle.three_way': 'Three-way',
+  'position.malformed': 'That is not a position: expected hands, discard pile, stock, suit and turn.',
+  'position.table': 'A position needs at least two players holding cards, a discard pile and a seat on turn.',
+  'position.cards': 'The cards do not add up to exactly one full shoe for these rules.',
+  'position.suit': 'A suit can only be named when the top card of the discard pile is wild.',
+
+  'invariant.title': 'Game state check failed',
+  'invariant.body': 'The last move left the table in an impossible state. This is a bug: download the state and attach it to a report.',
+  'invariant.dump': 'Download state',
+  'invariant.dismiss': 'Dismiss',
+  'invariant.unknownCard': 'Card {id} is not part of the shoe.',
+  'invariant.wrongFace': 'Card {id} shows up as the {card}.',
+  'invariant.duplicateCard': 'Card {id} is on the table {count} times.',
+  'invariant.missingCard': 'Card {id} is missing.',
+  'invariant.turn': 'Seat {turn} is on turn at a table of {count}.',
+  'invariant.emptyDiscard': 'The discard pile is empty.',
+  'invariant.suitWithoutWild': 'The suit {suit} is named although the top card is not wild.',
+  'invariant.suitSelection': 'A suit is being chosen although the top card is not a fresh wild.',
+  'invariant.winnerInPlay': 'A winner is set while the game is still on.',
+  'invariant.emptyHand': '{player} has no cards left but the game goes on.',
+  'invariant.winner': 'The winner is seat {winner}, which does not exist.',
+  'invariant.drawnCard': 'The drawn card {id} is not in the hand of the seat on turn.',
+
+  'table.players': 'Players',
+  'table.difficulty': 'AI difficulty',
+  'difficulty.easy': 'Easy',
+  'difficulty.normal': 'Normal',
+  'difficulty.hard': 'Hard',
+
+  'online.title': 'Play online',
+  'online.namePlaceholder': 'Your nickname',
+  'online.create': 'Create room',
+  'online.codePlaceholder': 'Room code',
+  'online.join': 'Join',
+  'online.waitingLabel': 'Waiting for opponent',
+  'online.shareCode': 'Send this room code to your opponent',
+  'online.waiting': 'Waiting for an opponent…',
+  'online.connecting': 'Connecting to the server…',
+  'online.cancel': 'Cancel',
+  'online.unreachable': 'Could not reach the game server.',
+  'online.badMessage': 'Malformed message.',
+  'online.noRoom': 'That room does not exist.',
+  'online.roomFull': 'That room is full.',
+  'online.alreadyJoined': 'You are already in this room.',
+  'online.cannotResume': 'The game cannot be resumed; the room is closed.',
+  'online.roomClosed': 'Your opponent has left; the room is closed.',
+  'online.notStarted': 'The game has not started yet.',
+  'online.notYourTurn': 'It is not your turn.',
+  'online.illegalMove': 'That move is against the rules.',
+  'online.unknownMessage': 'Unknown message.',
+
+  'stats.title': 'Stats',
+  'stats.unreachable': 'Could not reach the stats server.',
+  'stats.games': 'Games',
+  'stats.winRate': 'Win rate',
+  'stats.currentStreak': 'Streak',
+  'stats.bestStreak': 'Best streak',
+  'stats.averageTurns': 'Avg. turns',
+  'stats.averageDuration': 'Avg. length',
+  'stats.namePlaceholder': 'Nickname',
+  'stats.recent': 'Recent games',
+  'stats.won': 'W',
+  'stats.lost': 'L',
+  'stats.online': 'Online',
+  'stats.playerCount': '{count} players',
+  'stats.gameSummary': '{mode} · {winner} won · {turns} turns',
+  'stats.noGames': 'No finished games yet.',
+
+  'replay.title': 'Replay',
+  'replay.export': 'Export JSON',
+  'replay.start': 'Start',
+  'replay.previous': 'Previous',
+  'replay.next': 'Next',
+  'replay.end': 'End',
+  'replay.winner': ' · winner',
+  'replay.deck': 'Stock: {count}',
+  'replay.currentSuit': 'Suit: {suit}',
+
+  'match.label': 'Match results',
+  'match.title': 'Match over',
+  'match.summary': '{player} reached {target} points first. Rounds played: {rounds}.',
+  'match.roundsWon': 'Rounds won: {count}',
+  'match.round': 'Round',
+  'match.newMatch': 'New match',
+  'match.menu': 'Main menu',
+
+  'review.title': 'Review',
+  'review.analyzing': 'The AI is analysing every move…',
+  'review.failed': 'The review could not be worked out.',
+  'review.summary': 'Of {count} moves with a real choice, {mistakes} were clearly worse than the best move.',
+  'review.move': '{player}: {move}',
+  'review.better': 'Better: {move} ({percent})',
+  'review.wastedWild': 'Played a {rank} while holding a card that could follow',
+
+  'chat.separator': ': ',
+  'chat.play.pick': 'This one will do.',
+  'chat.play.fewLeft': 'Only {count} left, watch out~',
+  'chat.play.keepUp': 'Keep up, stay focused.',
+  'chat.play.steady': 'A {rank}. Nice and steady.',
+  'chat.play.nice': 'Hm, not a bad hand.',
+  'chat.draw.again': 'Ugh, drawing again…',
+  'chat.draw.unlucky': 'Not my lucky day.',
+  'chat.draw.later': 'No worries, the good cards are coming.',
+  'chat.wild.selfSwitch': '{suit} now! Deal with it.',
+  'chat.wild.otherSwitch': '{suit}? Are you picking on me?',
+  'chat.wild.selfTiming': 'This is exactly what wild cards are for.',
+  'chat.wild.otherPatient': 'Sitting on that wild all this time? Patient.',
+  'chat.wild.selfLike': '{suit}. I like this suit.',
+  'chat.wild.otherFine': 'Fine, fine, you got me.',
+  'chat.win.self': 'I won! Another round?',
+  'chat.win.other': 'Congrats, {player}. I won’t go easy next time.',
+  'chat.win.selfModest': 'You let me win, surely.',
+  'chat.win.otherSad': 'Lost… time to review that game.',
+  'chat.replyLanguage': 'English',
+};
@@ -0,0 +1,85 @@
+import { Card, Message, MessageParam, Suit } from '../types';
+import { MessageKey, zh } from './zh';
+import { en } from './en';
+import { createPreferenceStore } from '../preferences';
+
+// Message catalogs and the active language. Everything outside React reads the language
+// through t(); components re-render on a switch through useLocale().
+
+export type { MessageKey };
+export type Locale = 'zh' | 'en';
+
+export const LOCALES: Locale[] = ['zh', 'en'];
+
+// Each language is named in itself so the switcher reads right whatever is active
+export const LOCALE_NAMES: Record<Locale, string> = { zh: '中文', en: 'English' };
+
+const CATALOGS: Record<Locale, Record<MessageKey, string>> = { zh, en };
+const LOCALE_KEY = 'crazy8.locale';
+
+function isLocale(value: unknown): value is Locale {
+  return LOCALES.includes(value as Locale);
+}
+
+// The browser's language, else Chinese; a remembered choice wins over both
+function browserLocale(): Locale {
+  return typeof navigator !== 'undefined' && navigator.language?.startsWith('en') ? 'en' : 'zh';
+}
+
+// Earlier versions stored the bare language code instead of JSON
+try {
+  const saved = localStorage.getItem(LOCALE_KEY);
+  if (isLocale(saved)) localStorage.setItem(LOCALE_KEY, JSON.stringify(saved));
+} catch {
+  // No storage outside the browser
+}
+
+export const localeStore = createPreferenceStore(LOCALE_KEY, browserLocale(), isLocale);
+
+export const getLocale = localeStore.get;
+
+export function setLocale(locale: Locale) {
+  if (locale !== getLocale()) localeStore.set(locale);
+}
+
+function syncDocumentLang() {
+  if (typeof document !== 'undefined') document.documentElement.lang = getLocale();
+}
+syncDocumentLang();
+localeStore.subscribe(syncDocumentLang);
+
+export function getSuitName(suit: Suit): string {
+  return t(`suit.${suit}`);
+}
+
+export function getRankName(rank: Card['rank']): string {
+  const key = `rank.${rank}`;
+  return key in zh ? t(key as MessageKey) : rank;
+}
+
+export function getCardName(card: Card): string {
+  if (card.suit === null) return t('rank.joker');
+  return t('card.name', { suit: { suit: card.suit }, rank: { rank: card.rank } });
+}
+
+function formatParam(param: MessageParam): string {
+  if (typeof param !== 'object') return String(param);
+  if ('key' in param) return formatMessage(param);
+  if ('card' in param) return getCardName(param.card);
+  if ('suit' in param) return getSuitName(param.suit);
+  return getRankName(param.rank);
+}
+
+// `{name}` placeholders are replaced by the matching parameter; unknown ones are left as is.
+export function t(key: MessageKey, params: Record<string, MessageParam> = {}): string {
+  return CATALOGS[getLocale()][key].replace(/\{(\w+)\}/g, (match, name: string) =>
+    name in params ? formatParam(params[name]) : match);
+}
+
+export function formatMessage(message: Message): string {
+  return t(message.key, message.params);
+}
+
+export function createMessage(key: MessageKey, params?: Record<string, MessageParam>): Message {
+  return params ? { key, params } : { key };
+}
@@ -0,0 +1,7 @@
+import { usePreference } from '../preferences/usePreference';
+import { localeStore } from './index';
+
+// The active language; the calling component re-renders whenever it is switched.
+export function useLocale() {
+  return usePreference(localeStore);
+}
@@ -0,0 +1,378 @@
+// Chinese catalog. It is the reference every other language is checked against, so a key
+// added here fails the type check until each catalog has it.
+
+export const zh = {
+  'app.title': '疯狂 8 点',
+  'app.tagline': '经典的纸牌对战游戏。匹配花色或点数，利用万能的 8 点来改变局势！',
+  'app.language': '语言',
+  'common.close': '关闭',
+
+  'suit.hearts': '红心',
+  'suit.diamonds': '方块',
+  'suit.clubs': '梅花',
+  'suit.spades': '黑桃',
+  'rank.A': 'A',
+  'rank.J': 'J',
+  'rank.Q': 'Q',
+  'rank.K': 'K',
+  'rank.joker': '鬼牌',
+  'card.name': '{suit} {rank}',
+  'card.playable': '{card}，可以出',
+  'card.faceDown': '背面朝上的牌',
+
+  'seat.you': '你',
+  'seat.player': '玩家 {number}',
+  'seat.profileName': '玩家',
+
+  'action.welcome': '欢迎来到 Q 疯狂 8 点！',
+  'action.start': '游戏开始！轮到{player}了。',
+  'action.won': '{player} 赢了！',
+  'action.played': '{player} 打出了 {card}',
+  'action.playedWild': '{player} 打出了 {card}。新花色：{suit}',
+  'action.playedDrawTwo': '{player} 打出了 {card}。{victim} 需要摸 {count} 张牌！',
+  'action.playedDrawFour': '{player} 打出了 {card}，新花色：{suit}。{victim} 需要摸 {count} 张牌！',
+  'action.playedSkip': '{player} 打出了 {card}。{victim} 被跳过了！',
+  'action.playedReverse': '{player} 打出了 {card}。出牌方向反转！',
+  'action.drew': '{player} 摸了一张牌。',
+  'action.kept': '{player} 把摸到的牌留在了手里。',
+  'action.penalty': '{player} 被罚摸了 {count} 张牌。',
+  'action.passed': '{player} 跳过了（没有可摸的牌）',
+  'action.blocked': '牌局僵持，无人能出牌或摸牌。{tiebreak}的 {player} 获胜！',
+  'action.reshuffled': '摸牌堆已耗尽，弃牌堆已重新洗牌。',
+  'action.opponentLeft': '{player} 已离开，{winner} 获胜。',
+  'action.yourTurn': '轮到你了。',
+  'action.turnOf': '轮到{player}了。',
+
+  'log.title': '出牌记录 ({count})',
+  'log.deal': '发牌：{count} 名玩家，种子 {seed}',
+  'log.hiddenSeed': '（对局结束后公开）',
+  'log.play': '{player} 打出了 {card}',
+  'log.playWild': '{player} 打出了 {card}，新花色：{suit}',
+  'log.chooseSuit': '{player} 选择了 {suit}',
+  'log.drawOne': '{player} 摸了一张牌',
+  'log.drawMany': '{player} 摸了 {count} 张牌',
+  'log.pass': '{player} 跳过',
+  'log.keep': '{player} 留下了摸到的牌',
+  'log.reshuffle': '弃牌堆重新洗入摸牌堆（{count} 张）',
+  'log.invalidJson': '文件不是有效的 JSON。',
+  'log.unsupported': '不支持的对局记录格式。',
+  'log.unreplayable': '对局记录无法按规则重放。',
+
+  'move.play': '打出 {card}',
+  'move.playWild': '打出 {card}，指定{suit}',
+  'move.playUnknown': '出牌',
+  'move.chooseSuit': '指定{suit}',
+  'move.draw': '摸牌',
+  'move.drawPenalty': '摸 {count} 张罚牌',
+  'move.keep': '留下摸到的牌',
+  'move.pass': '跳过',
+
+  'board.deckLeft': '剩余 {count} 张',
+  'hand.sort': '手牌排序',
+  'hand.group': '按花色分组',
+  'handSort.manual': '自定顺序',
+  'handSort.suit': '按花色',
+  'handSort.rank': '按点数',
+  'handSort.playable': '可出的牌在前',
+  'board.copyPosition': '复制局面',
+  'board.positionCopied': '局面已复制',
+  'board.positionMidTurn': '当前回合结束后才能复制局面',
+  'board.seed': '种子',
+  'board.confirmQuit': '确定要退出当前游戏回到主菜单吗？',
+  'board.drawPile': '摸牌堆，剩余 {count} 张',
+  'board.empty': '空',
+  'board.drawPenalty': '摸 {count} 张',
+  'board.drawAgain': '继续摸牌',
+  'board.draw': '摸牌',
+  'board.currentSuit': '当前花色: {suit}',
+  'board.yourHand': '你的手牌',
+  'board.seatHand': '{player} 的手牌',
+  'board.handLabel': '手牌，用方向键选择，回车出牌',
+  'board.pass': '无牌可出，跳过',
+  'board.thinking': '思考中…',
+  'board.hint': '提示',
+  'board.drewPlayable': '摸到了能出的牌：',
+  'board.playDrawn': '打出',
+  'board.keepDrawn': '留在手里',
+  'board.hintMove': '{move} · 胜率 {percent}%',
+  'board.newCard': '新摸到',
+  'board.recommended': '推荐',
+  'board.timeLeft': '剩余 {seconds} 秒',
+  'board.handoff': '请把设备交给 {player}，点击查看手牌',
+  'board.turn': '回合: {player}',
+  'board.dealer': '庄家: {player}',
+  'board.direction': '方向: {direction}',
+  'board.clockwise': '顺时针',
+  'board.counterclockwise': '逆时针',
+  'board.status': '状态: {status}',
+  'board.statusPlaying': '进行中',
+  'board.statusSuit': '选择花色',
+  'board.statusOver': '结束',
+  'board.opponentOffline': '对手已断线，等待重连…',
+
+  'menu.label': '主菜单',
+  'menu.start': '开始游戏',
+  'menu.continue': '继续游戏',
+  'menu.tutorial': '新手教程',
+  'menu.puzzles': '残局谜题',
+  'menu.ladder': 'AI 天梯',
+  'menu.seedPlaceholder': '种子（留空为随机）',
+  'menu.daily': '每日牌局',
+  'menu.tableTalkOn': '对手聊天 开',
+  'menu.tableTalkOff': '对手聊天 关',
+  'menu.single': '单局',
+  'menu.matchTarget': '{target} 分赛',
+  'menu.stats': '战绩',
+  'menu.importReplay': '导入对局回放',
+  'menu.lastSeed': '上一局种子：{seed}（点击重玩）',
+  'menu.rulesTitle': '规则',
+  'menu.rulesBody': '匹配花色或点数',
+  'menu.wildTitle': '万能牌',
+  'menu.wildBody': '{rank} 可以改变花色',
+
+  'save.corrupt': '存档已损坏，无法继续。',
+  'save.outdated': '存档来自旧版本，无法继续。',
+
+  'suitPicker.label': '选择花色',
+  'suitPicker.title': '疯狂 8 点！',
+  'suitPicker.prompt': '请选择新的花色',
+
+  'gameOver.label': '本局结束',
+  'gameOver.loss': '失败',
+  'gameOver.win': '胜利！',
+  'gameOver.seatWon': '{player} 获胜！',
+  'gameOver.winBody': '{player}清空了所有手牌。干得漂亮！',
+  'gameOver.lossBody': '这次 {player} 更快。想再试一次吗？',
+  'gameOver.tiebreak': '僵局判定：{tiebreak}',
+  'gameOver.seatHand': '{count} 张 · {points} 分',
+  'gameOver.roundScores': '本局得分 · 先到 {target} 分获胜',
+  'gameOver.pointsLeft': '剩余 {points} 分',
+  'gameOver.standings': '查看最终排名',
+  'gameOver.nextRound': '下一局',
+  'gameOver.playAgain': '再玩一次',
+  'gameOver.ladderRating': '天梯等级分 {rating}（{change}）',
+  'gameOver.backToLadder': '返回天梯',
+  'gameOver.replay': '回放本局',
+  'gameOver.review': 'AI 复盘',
+
+  'rules.title': '房规',
+  'rules.drawTwo': '2 罚摸两张',
+  'rules.stacking': '可叠加 2',
+  'rules.skip': 'Q 跳过',
+  'rules.reverse': 'A 反转',
+  'rules.voluntaryDraw': '可主动摸牌',
+  'rules.wildRank': '万能牌',
+  'rules.handSize': '起手张数',
+  'rules.drawPolicy': '摸牌',
+  'rules.blockedTiebreak': '僵局判定',
+  'rules.decks': '副数',
+  'rules.jokers': '鬼牌',
+  'drawPolicy.draw_one': '摸一张',
+  'drawPolicy.until_playable': '摸到能出为止',
+  'drawPolicy.up_to_n': '最多摸 N 张',
+  'jokers.none': '不加',
+  'jokers.wild': '万能牌',
+  'jokers.draw_four': '罚摸四张',
+  'tiebreak.fewest_cards': '手牌最少',
+  'tiebreak.lowest_points': '罚分最低',
+
+  'theme.title': '牌面外观',
+  'theme.face': '牌面',
+  'theme.back': '牌背',
+  'theme.size': '大小',
+  'cardFace.classic': '经典红黑',
+  'cardFace.four_color': '四色',
+  'cardFace.high_contrast': '高对比大字',
+  'cardBack.indigo': '靛蓝',
+  'cardBack.crimson': '绯红',
+  'cardBack.lattice': '格纹',
+  'cardBack.midnight': '午夜',
+  'cardSize.normal': '标准',
+  'cardSize.compact': '紧凑',
+
+  'pacing.title': '节奏',
+  'pacing.speed': '游戏速度',
+  'pacing.skipAnimation': '跳过动画',
+  'pacing.turnClock': '回合计时',
+  'pacing.off': '关',
+  'pacing.seconds': '{seconds} 秒',
+  'pacing.timeoutMove': '超时',
+  'speed.instant': '瞬间',
+  'speed.fast': '快',
+  'speed.normal': '正常',
+  'speed.slow': '慢',
+  'timeoutMove.draw': '摸牌',
+  'timeoutMove.first_play': '出第一张能出的牌',
+
+  'tutorial.lesson': '第 {number}/{count} 课',
+  'tutorial.exit': '退出教程',
+  'tutorial.next': '下一课',
+  'tutorial.finish': '完成教程',
+  'tutorial.blocked': '这一课先不走这步，按提示来。',
+  'tutorial.matchSuit.hint': '弃牌堆顶是 {top}。出一张同花色的牌：点你的 {card}。',
+  'tutorial.matchSuit.done': '花色相同就能出。',
+  'tutorial.matchRank.hint': '弃牌堆顶是 {top}。点数相同也能出，花色不同也没关系：点你的 {card}。',
+  'tutorial.matchRank.done': '点数相同就能出，花色随之改变。',
+  'tutorial.wild.hint': '你没有能跟 {top} 的牌，但 8 是万能牌，什么时候都能出：点你的 {card}。',
+  'tutorial.wild.choose': '打出 8 后要指定新花色。选你手里最多的花色，比如{suit}。',
+  'tutorial.wild.done': '这个标记显示现在要跟的花色：{suit}。下一位必须出这个花色或另一张 8。',
+  'tutorial.draw.hint': '没有能出的牌时，就从摸牌堆摸一张。点摸牌堆。',
+  'tutorial.draw.play': '摸到的 {card} 可以出，马上打出去。',
+  'tutorial.draw.done': '摸到能出的牌可以直接打出；摸不到就轮到下一位。',
+  'tutorial.reshuffle.hint': '摸牌堆只剩 {count} 张了。再摸一张，看看会发生什么。',
+  'tutorial.reshuffle.done': '摸牌堆用完时，弃牌堆除了最上面那张都会洗回摸牌堆。',
+  'lesson.match_suit': '跟花色',
+  'lesson.match_rank': '跟点数',
+  'lesson.wild': '万能的 8',
+  'lesson.draw': '无牌可出时摸牌',
+  'lesson.reshuffle': '重新洗牌',
+
+  'ladder.title': 'AI 天梯',
+  'ladder.intro': '一对一击败每位对手即可解锁下一位。每局天梯对局后，你和每个 AI 的等级分都会变化。',
+  'ladder.you': '你',
+  'ladder.games': '{count} 局',
+  'ladder.challenge': '挑战',
+  'ladder.beaten': '已击败',
+  'ladder.locked': '未解锁',
+  'personality.pip': '还在学习中：常常有什么出什么。',
+  'personality.mira': '一有机会就换花色，8 也毫不吝惜。',
+  'personality.rosa': '囤着 8，不到万不得已不出。',
+  'personality.bruno': '先甩掉大牌，把 8 留作后手。',
+  'personality.vex': '囤 8、换花色、甩分数，很少失误。',
+  'puzzle.title': '残局谜题',
+  'puzzle.intro': '从给定局面出发，在限定回合内获胜。AI 每次的应对都相同。',
+  'puzzle.winIn': '{turns} 回合获胜',
+  'puzzle.players': '{count} 名玩家',
+  'puzzle.custom': '自定义局面',
+  'puzzle.customHint': '粘贴从对局中复制的局面，按菜单中设置的规则进行。',
+  'puzzle.customTurns': '回合数',
+  'puzzle.play': '开始',
+  'puzzle.goal': '在你的 {turns} 个回合内获胜',
+  'puzzle.progress': '第 {used}/{turns} 回合',
+  'puzzle.solved': '解开了！',
+  'puzzle.failed': '这次没成功，AI 逃脱了。',
+  'puzzle.retry': '重试',
+  'puzzle.next': '下一题',
+  'puzzle.exit': '退出谜题',
+  'puzzle.two_to_go': '还剩两张',
+  'puzzle.bridge': '过桥',
+  'puzzle.under_the_queen': '皇后之下',
+  'puzzle.penalty_box': '罚牌区',
+  'puzzle.long_way_home': '回家的远路',
+  'puzzle.three_way': '三方对局',
+  'position.malformed': '这不是有效的局面：应包含手牌、弃牌堆、牌堆、花色和轮次。',
+  'position.table': '局面至少需要两名有手牌的玩家、一个弃牌堆和一个轮到的座位。',
+  'position.cards': '这些牌与当前规则下的整副牌不一致。',
+  'position.suit': '只有弃牌堆顶牌是万能牌时才能指定花色。',
+
+  'invariant.title': '牌局状态检查失败',
+  'invariant.body': '上一步让牌桌进入了不可能的状态。这是一个程序错误：请下载状态并附在报告中。',
+  'invariant.dump': '下载状态',
+  'invariant.dismiss': '忽略',
+  'invariant.unknownCard': '牌 {id} 不属于这副牌。',
+  'invariant.wrongFace': '牌 {id} 显示为{card}。',
+  'invariant.duplicateCard': '牌 {id} 在桌上出现了 {count} 次。',
+  'invariant.missingCard': '牌 {id} 不见了。',
+  'invariant.turn': '{count} 人的牌桌上轮到了座位 {turn}。',
+  'invariant.emptyDiscard': '弃牌堆是空的。',
+  'invariant.suitWithoutWild': '顶牌不是万能牌，却指定了花色 {suit}。',
+  'invariant.suitSelection': '顶牌不是刚打出的万能牌，却在选择花色。',
+  'invariant.winnerInPlay': '对局仍在进行，却已设置了赢家。',
+  'invariant.emptyHand': '{player} 已没有手牌，但对局仍在继续。',
+  'invariant.winner': '赢家是不存在的座位 {winner}。',
+  'invariant.drawnCard': '刚摸的牌 {id} 不在当前玩家手中。',
+
+  'table.players': '玩家人数',
+  'table.difficulty': 'AI 难度',
+  'difficulty.easy': '简单',
+  'difficulty.normal': '普通',
+  'difficulty.hard': '困难',
+
+  'online.title': '在线对战',
+  'online.namePlaceholder': '你的昵称',
+  'online.create': '创建房间',
+  'online.codePlaceholder': '房间码',
+  'online.join': '加入',
+  'online.waitingLabel': '联机等待',
+  'online.shareCode': '把房间码发给对手',
+  'online.waiting': '等待对手加入…',
+  'online.connecting': '正在连接服务器…',
+  'online.cancel': '取消',
+  'online.unreachable': '无法连接到游戏服务器。',
+  'online.badMessage': '消息格式错误。',
+  'online.noRoom': '房间不存在。',
+  'online.roomFull': '房间已满。',
+  'online.alreadyJoined': '你已经在这个房间里了。',
+  'online.cannotResume': '无法恢复对局，房间已关闭。',
+  'online.roomClosed': '对手已离开，房间已关闭。',
+  'online.notStarted': '对局尚未开始。',
+  'online.notYourTurn': '还没轮到你。',
+  'online.illegalMove': '这一步不符合规则。',
+  'online.unknownMessage': '未知消息。',
+
+  'stats.title': '战绩',
+  'stats.unreachable': '无法连接统计服务器。',
+  'stats.games': '场次',
+  'stats.winRate': '胜率',
+  'stats.currentStreak': '当前连胜',
+  'stats.bestStreak': '最佳连胜',
+  'stats.averageTurns': '平均回合',
+  'stats.averageDuration': '平均时长',
+  'stats.namePlaceholder': '玩家昵称',
+  'stats.recent': '最近对局',
+  'stats.won': '胜',
+  'stats.lost': '负',
+  'stats.online': '在线',
+  'stats.playerCount': '{count} 人',
+  'stats.gameSummary': '{mode} · {winner} 获胜 · {turns} 回合',
+  'stats.noGames': '还没有完成的对局。',
+
+  'replay.title': '对局回放',
+  'replay.export': '导出 JSON',
+  'replay.start': '开头',
+  'replay.previous': '上一步',
+  'replay.next': '下一步',
+  'replay.end': '结尾',
+  'replay.winner': ' · 获胜',
+  'replay.deck': '摸牌堆 {count} 张',
+  'replay.currentSuit': '当前花色：{suit}',
+
+  'match.label': '比赛结果',
+  'match.title': '比赛结束',
+  'match.summary': '{player} 率先达到 {target} 分，共打了 {rounds} 局。',
+  'match.roundsWon': '胜 {count} 局',
+  'match.round': '局',
+  'match.newMatch': '再来一场比赛',
+  'match.menu': '返回主菜单',
+
+  'review.title': '复盘',
+  'review.analyzing': 'AI 正在分析每一步…',
+  'review.failed': '无法完成复盘分析。',
+  'review.summary': '{count} 次有选择的出牌中，有 {mistakes} 步明显不如最佳走法。',
+  'review.move': '{player}：{move}',
+  'review.better': '更好的走法：{move}（{percent}）',
+  'review.wastedWild': '手里还有能跟的牌，却打出了 {rank}',
+
+  'chat.separator': '：',
+  'chat.play.pick': '就这张吧。',
+  'chat.play.fewLeft': '只剩 {count} 张了，小心哦～',
+  'chat.play.keepUp': '跟上，别走神。',
+  'chat.play.steady': '{rank}，稳稳的。',
+  'chat.play.nice': '嗯，这手不错。',
+  'chat.draw.again': '啧，又要摸牌……',
+  'chat.draw.unlucky': '手气不太好啊。',
+  'chat.draw.later': '没关系，好牌在后面。',
+  'chat.wild.selfSwitch': '换成{suit}！接招吧。',
+  'chat.wild.otherSwitch': '{suit}？你这是在针对我吧。',
+  'chat.wild.selfTiming': '万能牌就该用在这种时候。',
+  'chat.wild.otherPatient': '留着万能牌到现在，挺能忍啊。',
+  'chat.wild.selfLike': '{suit}，我喜欢这个花色。',
+  'chat.wild.otherFine': '好吧好吧，算你狠。',
+  'chat.win.self': '赢啦！再来一局？',
+  'chat.win.other': '恭喜{player}，下次我可不会手下留情。',
+  'chat.win.selfModest': '承让承让。',
+  'chat.win.otherSad': '输了……我要复盘一下。',
+  'chat.replyLanguage': '中文',
+};
+
+export type MessageKey = keyof typeof zh;
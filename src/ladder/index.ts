@@ -0,0 +1,101 @@
+import { GameState, PersonalityId } from '../types';
+import { PERSONALITIES, Personality } from '../ai/personalities';
+import { createGame } from '../engine/rules';
+import { DEFAULT_RULES } from '../engine/ruleset';
+import { nameSeats } from '../engine/table';
+import { randomSeed } from '../utils/random';
+import { isRecord } from '../utils/guards';
+import { readStored, writeStored } from '../preferences';
+
+// Ladder mode: one-on-one games against the named AIs, weakest first. Beating the opponent on
+// the top rung reached so far unlocks the next one. Elo ratings for the player and every AI are
+// kept in this browser and move after each ladder game.
+
+export interface LadderProgress {
+  // Rungs beaten so far; the next opponent is PERSONALITIES[beaten] until all are
+  beaten: number;
+  playerRating: number;
+  ratings: Record<PersonalityId, number>;
+  games: number;
+  // Seed of the last game scored, so a finished game counts only once
+  lastSeed: string | null;
+  // Rating points the player won or lost in that game
+  lastChange: number;
+}
+
+export const INITIAL_PLAYER_RATING = 1000;
+// How far a single game moves a rating
+const ELO_K = 32;
+
+const LADDER_KEY = 'crazy8.ladder';
+
+export function createLadderProgress(): LadderProgress {
+  return {
+    beaten: 0,
+    playerRating: INITIAL_PLAYER_RATING,
+    ratings: Object.fromEntries(PERSONALITIES.map(p => [p.id, p.rating])) as Record<PersonalityId, number>,
+    games: 0,
+    lastSeed: null,
+    lastChange: 0,
+  };
+}
+
+function isLadderProgress(value: unknown): value is LadderProgress {
+  if (!isRecord(value) || !isRecord(value.ratings)) return false;
+  const { beaten, ratings } = value;
+  return typeof beaten === 'number' && Number.isInteger(beaten) && beaten >= 0 && beaten <= PERSONALITIES.length
+    && typeof value.playerRating === 'number' && Number.isInteger(value.games) && typeof value.lastChange === 'number'
+    && PERSONALITIES.every(p => typeof ratings[p.id] === 'number');
+}
+
+// A missing or damaged entry starts the ladder over
+export function loadLadderProgress(): LadderProgress {
+  return readStored(LADDER_KEY, isLadderProgress) ?? createLadderProgress();
+}
+
+export function saveLadderProgress(progress: LadderProgress) {
+  writeStored(LADDER_KEY, progress);
+}
+
+// Opponents up to the next unbeaten rung can be challenged; beaten ones as often as you like
+export function isRungOpen(progress: LadderProgress, rung: number): boolean {
+  return rung <= Math.min(progress.beaten, PERSONALITIES.length - 1);
+}
+
+// Chance of winning against the given rating, 0..1
+export function getExpectedScore(rating: number, opponentRating: number): number {
+  return 1 / (1 + 10 ** ((opponentRating - rating) / 400));
+}
+
+export function createLadderGame(opponent: Personality): GameState {
+  const seats = nameSeats(['human', 'ai']).map(seat => (seat.kind === 'ai' ? { ...seat, name: opponent.name, personality: opponent.id } : seat));
+  return createGame({ seed: randomSeed(), rules: DEFAULT_RULES, seats });
+}
+
+export function getLadderOpponent(state: GameState): Personality | null {
+  const id = state.seats[1]?.personality;
+  return PERSONALITIES.find(p => p.id === id) ?? null;
+}
+
+export function isLadderGameRecorded(progress: LadderProgress, state: GameState): boolean {
+  return progress.lastSeed === state.seed;
+}
+
+// Moves both ratings by the result of a finished ladder game (the player sits in seat 0) and
+// climbs a rung when the player beat the top opponent reached so far.
+export function recordLadderGame(progress: LadderProgress, state: GameState): LadderProgress {
+  const opponent = getLadderOpponent(state);
+  if (!opponent || state.winner === null) return progress;
+  const score = state.winner === 0 ? 1 : 0;
+  const opponentRating = progress.ratings[opponent.id];
+  const change = Math.round(ELO_K * (score - getExpectedScore(progress.playerRating, opponentRating)));
+  const rung = PERSONALITIES.indexOf(opponent);
+  return {
+    beaten: score === 1 && rung === progress.beaten ? progress.beaten + 1 : progress.beaten,
+    playerRating: progress.playerRating + change,
+    ratings: { ...progress.ratings, [opponent.id]: opponentRating - change },
+    games: progress.games + 1,
+    lastSeed: state.seed,
+    lastChange: change,
+  };
+}
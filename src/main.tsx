@@ -1,10 +1,13 @@
 import {StrictMode} from 'react';
 import {createRoot} from 'react-dom/client';
 import App from './App.tsx';
+import {PacedMotion} from './components/PacedMotion';
 import './index.css';
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    <PacedMotion>
+      <App />
+    </PacedMotion>
   </StrictMode>,
 );
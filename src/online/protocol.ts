@@ -0,0 +1,77 @@
+import { Card, GameAction, GameState, Message, Suit } from '../types';
+import { SUITS } from '../utils/deck';
+import { isRecord } from '../utils/guards';
+
+// Wire format shared by the game server and the browser client.
+
+export interface PublicSeat {
+  name: string;
+  handCount: number;
+  connected: boolean;
+}
+
+// What one client is allowed to know: its own hand, everyone's hand size and the public piles.
+// Seed and PRNG state are withheld because they would reveal the whole deal; the seed is
+// only shared once the game is over, and so are the deal's seed in the log and the other hands.
+export interface PlayerView extends Pick<GameState,
+  'discardPile' | 'currentSuit' | 'turn' | 'direction' | 'status' | 'winner' | 'blocked' | 'lastAction' | 'rules' | 'pendingDraw' | 'drawsThisTurn' | 'drawnCardId' | 'stats' | 'log'> {
+  seat: number;
+  hand: Card[];
+  seats: PublicSeat[];
+  deckCount: number;
+  seed?: string;
+  hands?: Card[][];
+}
+
+export type ClientMessage =
+  | { type: 'create_room'; name: string }
+  | { type: 'join_room'; code: string; name: string }
+  | { type: 'resume'; code: string; token: string }
+  | { type: 'action'; action: GameAction }
+  | { type: 'rematch' }
+  | { type: 'leave' };
+
+export type ServerMessage =
+  | { type: 'joined'; code: string; seat: number; token: string }
+  | { type: 'waiting'; code: string }
+  | { type: 'state'; view: PlayerView }
+  | { type: 'error'; message: Message };
+
+function isGameAction(value: unknown): value is GameAction {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'play':
+      return typeof value.cardId === 'string' && (value.suit === undefined || SUITS.includes(value.suit as Suit));
+    case 'choose_suit':
+      return SUITS.includes(value.suit as Suit);
+    case 'draw':
+    case 'pass':
+    case 'keep':
+      return true;
+    default:
+      return false;
+  }
+}
+
+// Whatever arrives on the socket is checked against this before the server acts on it
+export function isClientMessage(value: unknown): value is ClientMessage {
+  if (!isRecord(value)) return false;
+  switch (value.type) {
+    case 'create_room':
+    case 'rematch':
+    case 'leave':
+      return true;
+    case 'join_room':
+      return typeof value.code === 'string';
+    case 'resume':
+      return typeof value.code === 'string' && typeof value.token === 'string';
+    case 'action':
+      return isGameAction(value.action);
+    default:
+      return false;
+  }
+}
+
+export const ONLINE_SEATS = 2;
+// How long a dropped player has to reconnect before forfeiting
+export const DISCONNECT_TIMEOUT_MS = 60_000;
@@ -0,0 +1,14 @@
+// Where the game server (WebSocket rooms and REST API) lives. GAME_SERVER_URL points at the
+// WebSocket endpoint; by default the server runs on port 3001 of the host serving the app.
+export function getServerUrl(): string {
+  if (process.env.GAME_SERVER_URL) return process.env.GAME_SERVER_URL;
+  const protocol = window.location.protocol === 'https:' ? 'wss' : 'ws';
+  return `${protocol}://${window.location.hostname}:3001/ws`;
+}
+
+export function getApiUrl(path: string): string {
+  const url = new URL(getServerUrl());
+  url.protocol = url.protocol === 'wss:' ? 'https:' : 'http:';
+  url.pathname = `/api${path}`;
+  return url.toString();
+}
@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { GameAction, Message } from '../types';
+import { createMessage } from '../i18n';
+import { ClientMessage, PlayerView, ServerMessage } from './protocol';
+import { getServerUrl } from './serverUrl';
+import { isRecord } from '../utils/guards';
+
+export type OnlinePhase = 'idle' | 'connecting' | 'waiting' | 'playing';
+
+interface OnlineSession {
+  code: string;
+  token: string;
+}
+
+// Per tab, so two tabs of the same browser can sit at the same table
+const SESSION_KEY = 'crazy8.online-session';
+const RECONNECT_DELAY_MS = 2000;
+
+function isSession(value: unknown): value is OnlineSession {
+  return isRecord(value) && typeof value.code === 'string' && typeof value.token === 'string';
+}
+
+function loadSession(): OnlineSession | null {
+  try {
+    const saved: unknown = JSON.parse(sessionStorage.getItem(SESSION_KEY) ?? 'null');
+    // Only the two fields go into the resume message, whatever else the entry holds
+    return isSession(saved) ? { code: saved.code, token: saved.token } : null;
+  } catch {
+    return null;
+  }
+}
+
+// Connection to the authoritative game server. Exposes the latest view of the table and
+// reconnects to the same seat (with the stored token) whenever the socket drops.
+export function useOnlineGame() {
+  const [phase, setPhase] = useState<OnlinePhase>('idle');
+  const [view, setView] = useState<PlayerView | null>(null);
+  const [roomCode, setRoomCode] = useState<string | null>(null);
+  const [error, setError] = useState<Message | null>(null);
+  const socketRef = useRef<WebSocket | null>(null);
+  const reconnectTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+
+  const reset = useCallback(() => {
+    sessionStorage.removeItem(SESSION_KEY);
+    setPhase('idle');
+    setView(null);
+    setRoomCode(null);
+  }, []);
+
+  const connect = useCallback((first: ClientMessage) => {
+    socketRef.current?.close();
+    setError(null);
+    setPhase(current => (current === 'idle' ? 'connecting' : current));
+
+    const socket = new WebSocket(getServerUrl());
+    socketRef.current = socket;
+
+    socket.onopen = () => socket.send(JSON.stringify(first));
+
+    socket.onmessage = event => {
+      const message: ServerMessage = JSON.parse(event.data);
+      switch (message.type) {
+        case 'joined':
+          sessionStorage.setItem(SESSION_KEY, JSON.stringify({ code: message.code, token: message.token }));
+          setRoomCode(message.code);
+          return;
+        case 'waiting':
+          setRoomCode(message.code);
+          setPhase('waiting');
+          return;
+        case 'state':
+          setView(message.view);
+          setPhase('playing');
+          return;
+        case 'error':
+          setError(message.message);
+          if (first.type === 'resume') reset();
+          else setPhase(current => (current === 'connecting' ? 'idle' : current));
+          return;
+      }
+    };
+
+    socket.onclose = () => {
+      if (socketRef.current !== socket) return;
+      socketRef.current = null;
+      const session = loadSession();
+      if (!session) {
+        setPhase(current => (current === 'connecting' ? 'idle' : current));
+        return;
+      }
+      reconnectTimerRef.current = setTimeout(() => connect({ type: 'resume', ...session }), RECONNECT_DELAY_MS);
+    };
+
+    socket.onerror = () => setError(createMessage('online.unreachable'));
+  }, [reset]);
+
+  // Pick the seat back up after a page refresh
+  useEffect(() => {
+    const session = loadSession();
+    if (session) connect({ type: 'resume', ...session });
+    return () => {
+      if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+      const socket = socketRef.current;
+      socketRef.current = null;
+      socket?.close();
+    };
+  }, [connect]);
+
+  const send = useCallback((message: ClientMessage) => {
+    const socket = socketRef.current;
+    if (socket && socket.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  }, []);
+
+  const createRoom = useCallback((name: string) => connect({ type: 'create_room', name }), [connect]);
+  const joinRoom = useCallback((code: string, name: string) => connect({ type: 'join_room', code, name }), [connect]);
+  const sendAction = useCallback((action: GameAction) => send({ type: 'action', action }), [send]);
+  const rematch = useCallback(() => send({ type: 'rematch' }), [send]);
+
+  const leave = useCallback(() => {
+    if (reconnectTimerRef.current) clearTimeout(reconnectTimerRef.current);
+    send({ type: 'leave' });
+    const socket = socketRef.current;
+    socketRef.current = null;
+    socket?.close();
+    reset();
+  }, [send, reset]);
+
+  return { phase, view, roomCode, error, createRoom, joinRoom, sendAction, rematch, leave };
+}
@@ -0,0 +1,62 @@
+import { Card, GameState } from '../types';
+import { PlayerView } from './protocol';
+
+export function createPlayerView(state: GameState, seat: number, connected: boolean[]): PlayerView {
+  const over = state.status === 'game_over';
+  return {
+    seat,
+    hand: state.seats[seat].hand,
+    seats: state.seats.map((s, i) => ({ name: s.name, handCount: s.hand.length, connected: connected[i] ?? false })),
+    deckCount: state.deck.length,
+    discardPile: state.discardPile,
+    currentSuit: state.currentSuit,
+    turn: state.turn,
+    direction: state.direction,
+    status: state.status,
+    winner: state.winner,
+    blocked: state.blocked,
+    lastAction: state.lastAction,
+    rules: state.rules,
+    pendingDraw: state.pendingDraw,
+    drawsThisTurn: state.drawsThisTurn,
+    // Naming the drawn card would reveal it to the opponent
+    drawnCardId: seat === state.turn ? state.drawnCardId : null,
+    stats: state.stats,
+    seed: over ? state.seed : undefined,
+    hands: over ? state.seats.map(s => s.hand) : undefined,
+    log: over ? state.log : state.log.map(e => (e.type === 'deal' ? { ...e, seed: '' } : e)),
+  };
+}
+
+// Placeholder cards stand in for what this client cannot see; they are only ever drawn face down.
+function hiddenCards(prefix: string, count: number): Card[] {
+  return Array.from({ length: count }, (_, i) => ({ id: `hidden-${prefix}-${i}`, suit: 'spades', rank: 'A' }));
+}
+
+// Rebuilds a GameState from a view so the regular board can render an online game.
+export function viewToGameState(view: PlayerView): GameState {
+  return {
+    deck: hiddenCards('deck', view.deckCount),
+    seats: view.seats.map((s, i) => ({
+      name: s.name,
+      kind: 'human',
+      hand: view.hands?.[i] ?? (i === view.seat ? view.hand : hiddenCards(`seat${i}`, s.handCount)),
+    })),
+    discardPile: view.discardPile,
+    currentSuit: view.currentSuit,
+    turn: view.turn,
+    direction: view.direction,
+    status: view.status,
+    winner: view.winner,
+    blocked: view.blocked,
+    lastAction: view.lastAction,
+    rules: view.rules,
+    pendingDraw: view.pendingDraw,
+    drawsThisTurn: view.drawsThisTurn,
+    drawnCardId: view.drawnCardId,
+    seed: view.seed ?? '',
+    rngState: 0,
+    stats: view.stats,
+    log: view.log,
+  };
+}
@@ -0,0 +1,66 @@
+import { GameAction, GameState } from '../types';
+import { getHand, getLegalActions, getPlayableCards, isLegalAction } from '../engine/rules';
+import { isWild } from '../engine/ruleset';
+import { pickSuit } from '../ai/normal';
+import { isRecord } from '../utils/guards';
+import { createPreferenceStore } from '../preferences';
+
+// How fast the table plays and whether humans are on the clock, remembered per browser.
+// Components read it through usePacing().
+
+export type GameSpeed = 'instant' | 'fast' | 'normal' | 'slow';
+// What happens when a human's turn clock runs out
+export type TimeoutMove = 'draw' | 'first_play';
+
+export interface Pacing {
+  speed: GameSpeed;
+  // Cards snap into place instead of sliding and flipping
+  skipAnimation: boolean;
+  // Seconds per human turn; null means no clock
+  turnSeconds: number | null;
+  timeoutMove: TimeoutMove;
+}
+
+export const GAME_SPEEDS: GameSpeed[] = ['instant', 'fast', 'normal', 'slow'];
+export const TIMEOUT_MOVES: TimeoutMove[] = ['draw', 'first_play'];
+export const TURN_SECONDS_OPTIONS: (number | null)[] = [null, 10, 20, 30, 60];
+
+// Pause before each AI action
+export const AI_DELAYS: Record<GameSpeed, number> = { instant: 0, fast: 500, normal: 1500, slow: 3000 };
+
+// The clock turns red for the last few seconds
+export const CLOCK_WARNING_SECONDS = 5;
+
+export const DEFAULT_PACING: Pacing = { speed: 'normal', skipAnimation: false, turnSeconds: null, timeoutMove: 'draw' };
+
+const PACING_KEY = 'crazy8.pacing';
+
+function isPacing(value: unknown): value is Pacing {
+  return isRecord(value) && GAME_SPEEDS.includes(value.speed as GameSpeed) && typeof value.skipAnimation === 'boolean'
+    && TURN_SECONDS_OPTIONS.includes(value.turnSeconds as number | null) && TIMEOUT_MOVES.includes(value.timeoutMove as TimeoutMove);
+}
+
+export const pacingStore = createPreferenceStore(PACING_KEY, DEFAULT_PACING, isPacing);
+
+export const getPacing = pacingStore.get;
+export const setPacing = pacingStore.set;
+
+// The move made for a player whose clock ran out. Falls back to whatever is legal when the
+// preferred move is not, e.g. drawing while holding a playable card without voluntary draws.
+export function getTimeoutAction(state: GameState, move: TimeoutMove): GameAction {
+  const hand = getHand(state, state.turn);
+  if (state.status === 'suit_selection') {
+    return { type: 'choose_suit', suit: pickSuit(hand) };
+  }
+
+  const first = getPlayableCards(state)[0];
+  const play: GameAction | null = first
+    ? { type: 'play', cardId: first.id, ...(isWild(first, state.rules) ? { suit: pickSuit(hand, first) } : {}) }
+    : null;
+  const draw: GameAction | null = isLegalAction(state, { type: 'draw' })
+    ? { type: 'draw' }
+    : isLegalAction(state, { type: 'keep' }) ? { type: 'keep' } : null;
+
+  const preferred = move === 'draw' ? draw ?? play : play ?? draw;
+  return preferred ?? getLegalActions(state)[0];
+}
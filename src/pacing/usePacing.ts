@@ -0,0 +1,36 @@
+import { useEffect, useRef, useState } from 'react';
+import { usePreference } from '../preferences/usePreference';
+import { pacingStore } from './index';
+
+// The saved pacing settings; the calling component re-renders whenever they change.
+export function usePacing() {
+  return usePreference(pacingStore);
+}
+
+// Counts down from `seconds` whenever `turnKey` changes while `active`, and keeps calling
+// onExpire once time is up until the turn moves on. Returns the seconds left, or null when
+// no clock is running.
+export function useTurnClock(seconds: number | null, turnKey: string, active: boolean, onExpire: () => void): number | null {
+  const [deadline, setDeadline] = useState<number | null>(null);
+  const [now, setNow] = useState(Date.now);
+  const expire = useRef(onExpire);
+  expire.current = onExpire;
+
+  useEffect(() => {
+    const start = Date.now();
+    setNow(start);
+    setDeadline(active && seconds ? start + seconds * 1000 : null);
+  }, [turnKey, active, seconds]);
+
+  useEffect(() => {
+    if (deadline === null) return;
+    const timer = setInterval(() => {
+      const tick = Date.now();
+      setNow(tick);
+      if (tick >= deadline) expire.current();
+    }, 250);
+    return () => clearInterval(timer);
+  }, [deadline]);
+
+  return deadline === null ? null : Math.max(0, (deadline - now) / 1000);
+}
@@ -0,0 +1,47 @@
+// Values remembered per browser. readStored/writeStored cover plain saved data; a preference
+// store also lives outside React so plain code can read it, and components re-render on a
+// change through usePreference().
+
+// The JSON saved under `key`, or null when there is none, it is damaged or `isValid` rejects it
+export function readStored<T>(key: string, isValid: (value: unknown) => value is T): T | null {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(key) ?? 'null');
+    return isValid(saved) ? saved : null;
+  } catch {
+    // No storage outside the browser, or a damaged entry
+    return null;
+  }
+}
+
+export function writeStored(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // Storage full or disabled; the value lasts for this session only
+  }
+}
+
+export interface PreferenceStore<T> {
+  get: () => T;
+  set: (value: T) => void;
+  subscribe: (listener: () => void) => () => void;
+}
+
+// Saved as JSON under `key`; a missing or damaged entry, or one `isValid` rejects, reads as `fallback`
+export function createPreferenceStore<T>(key: string, fallback: T, isValid: (value: unknown) => value is T): PreferenceStore<T> {
+  let current = readStored(key, isValid) ?? fallback;
+  const listeners = new Set<() => void>();
+
+  return {
+    get: () => current,
+    set: value => {
+      current = value;
+      writeStored(key, value);
+      listeners.forEach(listener => listener());
+    },
+    subscribe: listener => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+}
@@ -0,0 +1,7 @@
+import { useSyncExternalStore } from 'react';
+import { PreferenceStore } from './index';
+
+// The store's current value; the calling component re-renders whenever it changes.
+export function usePreference<T>(store: PreferenceStore<T>): T {
+  return useSyncExternalStore(store.subscribe, store.get);
+}
@@ -0,0 +1,17 @@
+import { PUZZLES, PuzzleId } from './puzzles';
+import { readStored, writeStored } from '../preferences';
+import { isStringList } from '../utils/guards';
+
+// Solved starter puzzles, kept in this browser so the puzzle list can tick them off.
+
+const PROGRESS_KEY = 'crazy8.puzzles';
+
+// Ids of puzzles no longer in the pack are dropped
+export function loadSolvedPuzzles(): PuzzleId[] {
+  const saved = readStored(PROGRESS_KEY, isStringList) ?? [];
+  return PUZZLES.map(p => p.id).filter(id => saved.includes(id));
+}
+
+export function saveSolvedPuzzles(solved: PuzzleId[]) {
+  writeStored(PROGRESS_KEY, solved);
+}
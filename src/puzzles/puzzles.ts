@@ -0,0 +1,89 @@
+import { GameState, RuleSet } from '../types';
+import { createPositionGame, parsePosition } from '../engine/position';
+import { replayLog } from '../engine/log';
+import { DEFAULT_RULES } from '../engine/ruleset';
+import { nameSeats } from '../engine/table';
+
+// Endgame puzzles: win from a given position within a number of your own turns. The solver
+// sits in seat 0 and every other seat is a normal AI, whose moves are deterministic, so each
+// puzzle has a fixed set of solutions.
+
+export type PuzzleId = 'two_to_go' | 'bridge' | 'under_the_queen' | 'penalty_box' | 'long_way_home' | 'three_way';
+
+export interface Puzzle {
+  // Null for a position pasted in by the player
+  id: PuzzleId | null;
+  // In position notation, see engine/position
+  position: string;
+  turns: number;
+  // Rules on top of the defaults
+  rules?: Partial<RuleSet>;
+}
+
+export type PuzzleStatus = 'playing' | 'solved' | 'failed';
+
+const SOLVER = 0;
+
+// Each one checked against the AI: no win in fewer turns and only one winning first card.
+export const PUZZLES: Puzzle[] = [
+  {
+    id: 'two_to_go',
+    position: '8hJd/6h2hQh8d5h 9s4h4d6d2d5d10cQcKd7c3s7h5s3d3cAh5c6c2c7s7d Ac9h9d10d2s4sJh4c6s10hAd10s8sQd9cJs8cKhKsQsKcAs3hJc - 0',
+    turns: 2,
+  },
+  {
+    id: 'bridge',
+    position: '10c3d8h/Ac2sJd2h9h 5c10dJcQd10hAh6h4d4c8c5d7hJs3cQs6c3h7s8s9c10s KsKd6dKc5s7d4h7c9d5hAs9sAd2cJh8d3s4s6s2dQcQhKh - 0',
+    turns: 3,
+  },
+  {
+    id: 'under_the_queen',
+    position: '3s8sQd/2c10s4sKs6s 3cQh7sJsQcKhJhKd10hJc10d7d3d7c9h6dKc8cQs5h9s 2s6h10c5d5c5s2h2d8d4dAc4cAhAs9cJdAd8h6c4h3h9d7h - 0',
+    turns: 3,
+    rules: { skip: true },
+  },
+  {
+    id: 'penalty_box',
+    position: 'Ah10s8c/Qh4c3c4h5c 8h2d4dJcQd9s7d9h8d2cKc10d9dQsJd6c5hKd10h10c6h 4s5d7h7s7cAcQcAs3h3dKsKh6d3s8s5s9c2s6sJhJsAd2h - 0',
+    turns: 3,
+    rules: { drawTwo: true, stacking: true },
+  },
+  {
+    id: 'long_way_home',
+    position: '8c5dAcJs/Kh2dQh6d9s 5s7s4h2s3h6s5cKs4dQc2c7c7h6h10s7d8d3s10h3d5h 9hQdKc8h2h3c10c4sJd10dQs9dAhAs6cAd9c8s4cKdJhJc - 0',
+    turns: 4,
+    rules: { skip: true },
+  },
+  {
+    id: 'three_way',
+    position: '8hAd9dKs/Jh5s5d2c3d/5c6h10d7s4d Qd9hJd3h4s2s7d2hKhKc6s4h3s9c7h10hJc2d10s8dAh Ac6c8s9sAs3c5h8cQc4cQhJs7cKd10cQs6d - 0',
+    turns: 4,
+    rules: { skip: true, reverse: true },
+  },
+];
+
+export function getPuzzleRules(puzzle: Puzzle): RuleSet {
+  return { ...DEFAULT_RULES, ...puzzle.rules };
+}
+
+// Throws for a puzzle whose position does not parse; the starter pack always does and custom
+// puzzles are parsed before they get here.
+export function createPuzzleGame(puzzle: Puzzle): GameState {
+  const rules = getPuzzleRules(puzzle);
+  const parsed = parsePosition(puzzle.position, rules);
+  if (parsed.ok === false) throw new Error(`Invalid puzzle position: ${puzzle.position}`);
+  const seats = nameSeats(parsed.position.layout.hands.map((_, i) => (i === SOLVER ? 'human' : 'ai')))
+    .map(seat => (seat.kind === 'ai' ? { ...seat, difficulty: 'normal' as const } : seat));
+  return createPositionGame(parsed.position, seats, rules, `puzzle-${puzzle.id ?? 'custom'}`);
+}
+
+// Turns the solver has finished so far, counted from the log
+export function countSolverTurns(state: GameState): number {
+  const states = replayLog(state.log);
+  return states.slice(1).filter((next, i) => states[i].turn === SOLVER && next.stats.turns > states[i].stats.turns).length;
+}
+
+export function getPuzzleStatus(puzzle: Puzzle, state: GameState, turnsUsed: number): PuzzleStatus {
+  if (state.status === 'game_over') return state.winner === SOLVER && turnsUsed <= puzzle.turns ? 'solved' : 'failed';
+  return turnsUsed >= puzzle.turns ? 'failed' : 'playing';
+}
@@ -0,0 +1,124 @@
+import { AIDifficulty, Card, GameState, MatchState, Message, PersonalityId, Rank, Suit } from '../types';
+import { RANKS, SUITS } from '../utils/deck';
+import { isRecord } from '../utils/guards';
+import { getDeckSize, isRuleSet } from '../engine/ruleset';
+import { AI_DIFFICULTIES } from '../ai';
+import { PERSONALITIES } from '../ai/personalities';
+import { MAX_PLAYERS, MIN_PLAYERS } from '../engine/table';
+import { createMessage } from '../i18n';
+
+// Auto-saved local game, kept in this browser only. Bump SAVE_VERSION whenever GameState
+// changes shape; saves written by another version are rejected instead of loaded.
+
+export const SAVE_VERSION = 7;
+
+interface SaveFile {
+  version: number;
+  savedAt: string;
+  state: GameState;
+  // The scored match the game is a round of, if any
+  match: MatchState | null;
+}
+
+export type SavedGame =
+  | { ok: true; state: GameState; match: MatchState | null; savedAt: string }
+  | { ok: false; error: Message };
+
+const SAVE_KEY = 'crazy8.saved-game';
+
+function isCard(value: unknown): value is Card {
+  if (!isRecord(value) || typeof value.id !== 'string') return false;
+  return value.rank === 'joker' ? value.suit === null : SUITS.includes(value.suit as Suit) && RANKS.includes(value.rank as Rank);
+}
+
+function isCardList(value: unknown): value is Card[] {
+  return Array.isArray(value) && value.every(isCard);
+}
+
+const isCount = (value: unknown): value is number => typeof value === 'number' && Number.isInteger(value) && value >= 0;
+
+function isSeat(value: unknown): value is { name: string; kind: 'human' | 'ai'; hand: Card[] } {
+  if (!isRecord(value) || typeof value.name !== 'string' || (value.kind !== 'human' && value.kind !== 'ai') || !isCardList(value.hand)) return false;
+  // The AI picks its strategy from these, so an unknown one would leave it unable to move
+  if (value.difficulty !== undefined && !AI_DIFFICULTIES.includes(value.difficulty as AIDifficulty)) return false;
+  return value.personality === undefined || PERSONALITIES.some(p => p.id === (value.personality as PersonalityId));
+}
+
+// Enough structure for the board and the engine to run, and every card of the deck exactly once.
+function isValidState(state: unknown): state is GameState {
+  if (!isRecord(state)) return false;
+  if (state.status !== 'playing' && state.status !== 'suit_selection') return false;
+  const seats = state.seats;
+  if (!Array.isArray(seats) || seats.length < MIN_PLAYERS || seats.length > MAX_PLAYERS || !seats.every(isSeat)) return false;
+  if (!isCardList(state.deck) || !isCardList(state.discardPile) || state.discardPile.length === 0) return false;
+  if (typeof state.turn !== 'number' || !Number.isInteger(state.turn) || state.turn < 0 || state.turn >= seats.length) return false;
+  if (state.direction !== 1 && state.direction !== -1) return false;
+  if (state.currentSuit !== null && !SUITS.includes(state.currentSuit as Suit)) return false;
+  // A game still in progress has no winner yet
+  if (state.winner !== null || typeof state.blocked !== 'boolean') return false;
+  if (!isCount(state.pendingDraw) || !isCount(state.drawsThisTurn)) return false;
+  if (state.drawnCardId !== null && typeof state.drawnCardId !== 'string') return false;
+  if (!isRecord(state.lastAction) || typeof state.lastAction.key !== 'string') return false;
+  const stats = state.stats;
+  if (!isRecord(stats) || !isCount(stats.turns) || !isCount(stats.wildsPlayed) || !isCount(stats.reshuffles)) return false;
+  if (!isRuleSet(state.rules) || !Array.isArray(state.log) || typeof state.seed !== 'string' || typeof state.rngState !== 'number') return false;
+
+  const cards: Card[] = [...state.deck, ...state.discardPile, ...seats.flatMap(s => s.hand)];
+  return cards.length === getDeckSize(state.rules) && new Set(cards.map(c => c.id)).size === cards.length;
+}
+
+function isValidMatch(match: unknown, state: GameState): match is MatchState | null {
+  if (match === null) return true;
+  return isRecord(match) && typeof match.target === 'number' && typeof match.seed === 'string' && Array.isArray(match.rounds)
+    && Array.isArray(match.scores) && match.scores.length === state.seats.length && match.scores.every(score => typeof score === 'number')
+    && Number.isInteger(match.dealer);
+}
+
+export function parseSavedGame(raw: string): SavedGame {
+  let file: unknown;
+  try {
+    file = JSON.parse(raw);
+  } catch {
+    return { ok: false, error: createMessage('save.corrupt') };
+  }
+  if (!isRecord(file) || file.version !== SAVE_VERSION) {
+    return { ok: false, error: createMessage('save.outdated') };
+  }
+  const { state, match, savedAt } = file;
+  if (!isValidState(state) || !isValidMatch(match, state) || typeof savedAt !== 'string') {
+    return { ok: false, error: createMessage('save.corrupt') };
+  }
+  return { ok: true, state, match, savedAt };
+}
+
+export function serializeGame(state: GameState, match: MatchState | null = null): string {
+  const file: SaveFile = { version: SAVE_VERSION, savedAt: new Date().toISOString(), state, match };
+  return JSON.stringify(file);
+}
+
+// Null when nothing is saved. A save that cannot be loaded stays reported until a new game
+// overwrites it.
+export function loadSavedGame(): SavedGame | null {
+  try {
+    const raw = localStorage.getItem(SAVE_KEY);
+    return raw === null ? null : parseSavedGame(raw);
+  } catch {
+    return null;
+  }
+}
+
+export function saveGame(state: GameState, match: MatchState | null = null) {
+  try {
+    localStorage.setItem(SAVE_KEY, serializeGame(state, match));
+  } catch {
+    // Storage full or disabled; the game goes on without a save
+  }
+}
+
+export function clearSavedGame() {
+  try {
+    localStorage.removeItem(SAVE_KEY);
+  } catch {
+    // Nothing to clear
+  }
+}
@@ -0,0 +1,24 @@
+import { getApiUrl } from '../online/serverUrl';
+import { GameRecord, GameRecordInput, ProfileStats } from './types';
+
+async function request<T>(path: string, init?: RequestInit): Promise<T> {
+  const response = await fetch(getApiUrl(path), init);
+  if (!response.ok) throw new Error(`${init?.method ?? 'GET'} ${path} failed with ${response.status}`);
+  return response.json();
+}
+
+export function recordGame(record: GameRecordInput): Promise<{ id: number }> {
+  return request('/games', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify(record),
+  });
+}
+
+export function fetchProfileStats(profileId: string): Promise<ProfileStats> {
+  return request(`/profiles/${encodeURIComponent(profileId)}/stats`);
+}
+
+export function fetchRecentGames(profileId: string, limit = 10): Promise<GameRecord[]> {
+  return request(`/profiles/${encodeURIComponent(profileId)}/games?limit=${limit}`);
+}
@@ -0,0 +1,32 @@
+// The local player's identity for match history, kept in this browser only.
+
+import { t } from '../i18n';
+import { isRecord } from '../utils/guards';
+import { readStored, writeStored } from '../preferences';
+
+export interface Profile {
+  id: string;
+  name: string;
+}
+
+const PROFILE_KEY = 'crazy8.profile';
+
+function newProfileId(): string {
+  return typeof crypto !== 'undefined' && 'randomUUID' in crypto
+    ? crypto.randomUUID()
+    : `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 10)}`;
+}
+
+function isProfile(value: unknown): value is Profile {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string';
+}
+
+export function loadProfile(): Profile {
+  const saved = readStored(PROFILE_KEY, isProfile);
+  return saved ? { id: saved.id, name: saved.name } : saveProfile({ id: newProfileId(), name: t('seat.profileName') });
+}
+
+export function saveProfile(profile: Profile): Profile {
+  writeStored(PROFILE_KEY, profile);
+  return profile;
+}
@@ -0,0 +1,33 @@
+// Shapes exchanged with the match-history REST API.
+
+export type GameMode = 'local' | 'online';
+
+export interface GameRecordInput {
+  profileId: string;
+  profileName: string;
+  mode: GameMode;
+  seed: string;
+  // Display name of the winning seat
+  winner: string;
+  won: boolean;
+  playerCount: number;
+  turns: number;
+  eightsPlayed: number;
+  durationMs: number;
+}
+
+export interface GameRecord extends GameRecordInput {
+  id: number;
+  // ISO timestamp
+  finishedAt: string;
+}
+
+export interface ProfileStats {
+  games: number;
+  wins: number;
+  winRate: number;
+  currentStreak: number;
+  bestStreak: number;
+  averageTurns: number;
+  averageDurationMs: number;
+}
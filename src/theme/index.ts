@@ -0,0 +1,61 @@
+import { Suit } from '../types';
+import { isRecord } from '../utils/guards';
+import { createPreferenceStore } from '../preferences';
+
+// How cards look, remembered per browser. Like the language, it lives outside React so any
+// card can read it; components re-render on a change through useCardTheme().
+
+// classic: red and black. four_color: every suit its own colour. high_contrast: four colours,
+// heavy outlines and large print for low-vision players.
+export type CardFace = 'classic' | 'four_color' | 'high_contrast';
+export type CardBack = 'indigo' | 'crimson' | 'lattice' | 'midnight';
+export type CardSize = 'normal' | 'compact';
+
+export interface CardTheme {
+  face: CardFace;
+  back: CardBack;
+  size: CardSize;
+}
+
+export const CARD_FACES: CardFace[] = ['classic', 'four_color', 'high_contrast'];
+export const CARD_BACKS: CardBack[] = ['indigo', 'crimson', 'lattice', 'midnight'];
+export const CARD_SIZES: CardSize[] = ['normal', 'compact'];
+
+export const DEFAULT_CARD_THEME: CardTheme = { face: 'classic', back: 'indigo', size: 'normal' };
+
+export const SUIT_SYMBOLS: Record<Suit, string> = { hearts: '♥', diamonds: '♦', clubs: '♣', spades: '♠' };
+
+// Suit colours on a white card face
+const FACE_COLORS: Record<CardFace, Record<Suit, string>> = {
+  classic: { hearts: 'text-red-600', diamonds: 'text-red-600', clubs: 'text-gray-900', spades: 'text-gray-900' },
+  four_color: { hearts: 'text-red-600', diamonds: 'text-blue-600', clubs: 'text-green-700', spades: 'text-gray-900' },
+  high_contrast: { hearts: 'text-red-700', diamonds: 'text-blue-700', clubs: 'text-green-800', spades: 'text-black' },
+};
+
+// The same colours on the dark table, e.g. in the suit picker
+const TABLE_COLORS: Record<CardFace, Record<Suit, string>> = {
+  classic: { hearts: 'text-red-500', diamonds: 'text-red-500', clubs: 'text-white', spades: 'text-white' },
+  four_color: { hearts: 'text-red-500', diamonds: 'text-sky-400', clubs: 'text-green-400', spades: 'text-white' },
+  high_contrast: { hearts: 'text-red-400', diamonds: 'text-sky-300', clubs: 'text-lime-300', spades: 'text-white' },
+};
+
+export const CARD_SIZE_CLASSES: Record<CardSize, string> = {
+  normal: 'w-20 h-28 sm:w-24 sm:h-36',
+  compact: 'w-14 h-20 sm:w-16 sm:h-24',
+};
+
+const THEME_KEY = 'crazy8.card-theme';
+
+function isCardTheme(value: unknown): value is CardTheme {
+  return isRecord(value) && CARD_FACES.includes(value.face as CardFace) && CARD_BACKS.includes(value.back as CardBack)
+    && CARD_SIZES.includes(value.size as CardSize);
+}
+
+export const cardThemeStore = createPreferenceStore(THEME_KEY, DEFAULT_CARD_THEME, isCardTheme);
+
+export const getCardTheme = cardThemeStore.get;
+export const setCardTheme = cardThemeStore.set;
+
+export function getSuitColor(suit: Suit, face: CardFace, onTable = false): string {
+  return (onTable ? TABLE_COLORS : FACE_COLORS)[face][suit];
+}
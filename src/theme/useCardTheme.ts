@@ -0,0 +1,7 @@
+import { usePreference } from '../preferences/usePreference';
+import { cardThemeStore } from './index';
+
+// The saved card theme; the calling component re-renders whenever it changes.
+export function useCardTheme() {
+  return usePreference(cardThemeStore);
+}
@@ -0,0 +1,108 @@
+import { Card, GameAction, GameEvent, GameState, MessageParam, Rank, Suit, TableLayout } from '../types';
+import { RANKS, SUITS } from '../utils/deck';
+import { createGame } from '../engine/rules';
+import { DEFAULT_RULES } from '../engine/ruleset';
+import { nameSeats } from '../engine/table';
+import { MessageKey } from '../i18n';
+
+// Guided lessons on fixed deals. The learner always sits in seat 0 against one AI that never
+// gets to move: every lesson is over once the learner has made the move it teaches.
+
+export type LessonId = 'match_suit' | 'match_rank' | 'wild' | 'draw' | 'reshuffle';
+
+// Parts of the board a lesson can point at
+export type TutorialTarget = 'draw_pile' | 'discard_pile' | 'current_suit';
+
+export interface TutorialHint {
+  // Null shows the text without pointing anywhere
+  target: TutorialTarget | null;
+  key: MessageKey;
+  params?: Record<string, MessageParam>;
+}
+
+export interface Lesson {
+  id: LessonId;
+  layout: TableLayout;
+  // Moves the lesson accepts; anything else is blocked even when the rules would allow it
+  allows: (state: GameState, action: GameAction) => boolean;
+  isComplete: (state: GameState) => boolean;
+  getHint: (state: GameState) => TutorialHint;
+}
+
+const LEARNER = 0;
+
+const card = (rank: Rank, suit: Suit): Card => ({ id: `${rank}-${suit}`, suit, rank });
+
+// A full deck laid out around the cards a lesson cares about. Every card not placed explicitly
+// goes, in a fixed order, under the stock or (for a short stock) under the discard pile.
+function arrange(hands: Card[][], top: Card, stock: Card[], rest: 'stock' | 'discard'): TableLayout {
+  const placed = new Set([...hands.flat(), top, ...stock].map(c => c.id));
+  const others = SUITS.flatMap(suit => RANKS.map(rank => card(rank, suit))).filter(c => !placed.has(c.id));
+  return rest === 'stock'
+    ? { hands, discardPile: [top], deck: [...others, ...stock] }
+    : { hands, discardPile: [...others, top], deck: stock };
+}
+
+const byLearner = (state: GameState, test: (event: GameEvent) => boolean) =>
+  state.log.some(event => 'seat' in event && event.seat === LEARNER && test(event));
+
+const playsCard = (action: GameAction, cardId: string) => action.type === 'play' && action.cardId === cardId;
+
+const opponent = [card('3', 'clubs'), card('J', 'diamonds'), card('6', 'spades'), card('10', 'hearts'), card('Q', 'clubs')];
+
+export const LESSONS: Lesson[] = [
+  {
+    id: 'match_suit',
+    layout: arrange([[card('9', 'hearts'), card('5', 'clubs'), card('K', 'spades')], opponent], card('5', 'hearts'), [], 'stock'),
+    allows: (_, action) => playsCard(action, '9-hearts'),
+    isComplete: state => byLearner(state, e => e.type === 'play'),
+    getHint: state => byLearner(state, e => e.type === 'play')
+      ? { target: 'discard_pile', key: 'tutorial.matchSuit.done' }
+      : { target: 'discard_pile', key: 'tutorial.matchSuit.hint', params: { top: { card: card('5', 'hearts') }, card: { card: card('9', 'hearts') } } },
+  },
+  {
+    id: 'match_rank',
+    layout: arrange([[card('2', 'clubs'), card('7', 'diamonds'), card('J', 'spades')], opponent], card('7', 'clubs'), [], 'stock'),
+    allows: (_, action) => playsCard(action, '7-diamonds'),
+    isComplete: state => byLearner(state, e => e.type === 'play'),
+    getHint: state => byLearner(state, e => e.type === 'play')
+      ? { target: 'discard_pile', key: 'tutorial.matchRank.done' }
+      : { target: 'discard_pile', key: 'tutorial.matchRank.hint', params: { top: { card: card('7', 'clubs') }, card: { card: card('7', 'diamonds') } } },
+  },
+  {
+    id: 'wild',
+    layout: arrange([[card('K', 'diamonds'), card('8', 'hearts'), card('2', 'diamonds'), card('9', 'clubs')], opponent], card('4', 'spades'), [], 'stock'),
+    allows: (_, action) => playsCard(action, '8-hearts') || action.type === 'choose_suit',
+    isComplete: state => state.status === 'playing' && state.currentSuit !== null,
+    getHint: state => {
+      if (state.status === 'suit_selection') return { target: null, key: 'tutorial.wild.choose', params: { suit: { suit: 'diamonds' } } };
+      if (state.currentSuit) return { target: 'current_suit', key: 'tutorial.wild.done', params: { suit: { suit: state.currentSuit } } };
+      return { target: 'discard_pile', key: 'tutorial.wild.hint', params: { top: { card: card('4', 'spades') }, card: { card: card('8', 'hearts') } } };
+    },
+  },
+  {
+    id: 'draw',
+    layout: arrange([[card('3', 'hearts'), card('6', 'diamonds'), card('J', 'clubs')], opponent], card('10', 'spades'), [card('Q', 'spades')], 'stock'),
+    allows: (state, action) => action.type === 'draw' || playsCard(action, state.drawnCardId ?? ''),
+    isComplete: state => byLearner(state, e => e.type === 'play'),
+    getHint: state => {
+      if (byLearner(state, e => e.type === 'play')) return { target: 'discard_pile', key: 'tutorial.draw.done' };
+      if (state.drawnCardId) return { target: 'discard_pile', key: 'tutorial.draw.play', params: { card: { card: card('Q', 'spades') } } };
+      return { target: 'draw_pile', key: 'tutorial.draw.hint' };
+    },
+  },
+  {
+    id: 'reshuffle',
+    layout: arrange([[card('5', 'hearts'), card('9', 'diamonds')], opponent], card('2', 'clubs'), [card('4', 'hearts'), card('10', 'diamonds')], 'discard'),
+    allows: (state, action) => action.type === 'draw' || action.type === 'keep' || playsCard(action, state.drawnCardId ?? ''),
+    isComplete: state => state.log.some(e => e.type === 'reshuffle'),
+    getHint: state => state.log.some(e => e.type === 'reshuffle')
+      ? { target: 'draw_pile', key: 'tutorial.reshuffle.done' }
+      : { target: 'draw_pile', key: 'tutorial.reshuffle.hint', params: { count: state.deck.length } },
+  },
+];
+
+export function createLessonGame(lesson: Lesson): GameState {
+  // The AI deals, so the learner moves first
+  return createGame({ seed: `tutorial-${lesson.id}`, rules: DEFAULT_RULES, seats: nameSeats(['human', 'ai']), dealer: 1, layout: lesson.layout });
+}
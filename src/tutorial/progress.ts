@@ -0,0 +1,23 @@
+import { LESSONS, LessonId } from './lessons';
+import { readStored, writeStored } from '../preferences';
+import { isStringList } from '../utils/guards';
+
+// Finished lessons, kept in this browser so the tutorial resumes where the player left off.
+
+const PROGRESS_KEY = 'crazy8.tutorial';
+
+// Ids of lessons no longer in the tutorial are dropped
+export function loadTutorialProgress(): LessonId[] {
+  const saved = readStored(PROGRESS_KEY, isStringList) ?? [];
+  return LESSONS.map(l => l.id).filter(id => saved.includes(id));
+}
+
+export function saveTutorialProgress(completed: LessonId[]) {
+  writeStored(PROGRESS_KEY, completed);
+}
+
+// Where to pick up: the first unfinished lesson, or the start once all are done.
+export function getResumeLesson(completed: LessonId[]): number {
+  const next = LESSONS.findIndex(l => !completed.includes(l.id));
+  return next === -1 ? 0 : next;
+}
@@ -1,23 +1,237 @@
+import { MessageKey } from './i18n/zh';
+
 
 export type Suit = 'hearts' | 'diamonds' | 'clubs' | 'spades';
 export type Rank = 'A' | '2' | '3' | '4' | '5' | '6' | '7' | '8' | '9' | '10' | 'J' | 'Q' | 'K';
 
 export interface Card {
   id: string;
-  suit: Suit;
-  rank: Rank;
+  // Jokers have neither a suit nor a regular rank
+  suit: Suit | null;
+  rank: Rank | 'joker';
+}
+
+// Text for players, kept as a catalog key plus parameters so every client renders it in its
+// own language. Suits, ranks and cards are passed as such and named at render time.
+export type MessageParam = string | number | { suit: Suit } | { rank: Card['rank'] } | { card: Card } | Message;
+
+export interface Message {
+  key: MessageKey;
+  params?: Record<string, MessageParam>;
+}
+
+export type SeatKind = 'human' | 'ai';
+
+export type AIDifficulty = 'easy' | 'normal' | 'hard';
+
+// Named AI opponents of the ladder, weakest first
+export type PersonalityId = 'pip' | 'mira' | 'rosa' | 'bruno' | 'vex';
+
+export interface SeatConfig {
+  name: string;
+  kind: SeatKind;
+  // Only meaningful for AI seats; defaults to 'normal'
+  difficulty?: AIDifficulty;
+  // A named AI plays its own style instead of the difficulty's
+  personality?: PersonalityId;
+}
+
+export interface Seat extends SeatConfig {
+  hand: Card[];
+}
+
+// What happens when a player draws: one card and the turn is over unless it can be played,
+// keep drawing until a playable card turns up, or the same with at most `drawLimit` cards
+export type DrawPolicy = 'draw_one' | 'until_playable' | 'up_to_n';
+
+// How a blocked game (nobody can play or draw) picks its winner
+export type BlockedTiebreak = 'fewest_cards' | 'lowest_points';
+
+// What jokers do, if the deck has any: act as one more wild, or as a wild that also makes the
+// next player draw four
+export type JokerRule = 'none' | 'wild' | 'draw_four';
+
+// 1 = clockwise (towards the next seat index), -1 = counter-clockwise
+export type Direction = 1 | -1;
+
+export interface RuleSet {
+  // Rank that can be played on anything and names the next suit
+  wildRank: Rank;
+  handSize: number;
+  // A 2 forces the next player to draw two cards
+  drawTwo: boolean;
+  // A pending draw-two can be passed on by playing another 2
+  stacking: boolean;
+  // A Q skips the next player
+  skip: boolean;
+  // An A reverses the direction of play
+  reverse: boolean;
+  blockedTiebreak: BlockedTiebreak;
+  drawPolicy: DrawPolicy;
+  // Most cards drawn in one turn under 'up_to_n'
+  drawLimit: number;
+  // Players may draw even when they hold a playable card
+  voluntaryDraw: boolean;
+  // Full 52-card decks shuffled together; big tables need more than one
+  decks: number;
+  jokers: JokerRule;
+}
+
+// Running counters kept by the engine for history, statistics and balancing
+export interface GameStats {
+  // Completed turns across all seats
+  turns: number;
+  wildsPlayed: number;
+  reshuffles: number;
+}
+
+// A hand-arranged table dealt instead of a shuffled deck, e.g. for the tutorial. The stock is
+// listed bottom first, so its last card is drawn first.
+export interface TableLayout {
+  hands: Card[][];
+  discardPile: Card[];
+  deck: Card[];
+  // A position taken from the middle of a game may start with a named suit or reversed play
+  currentSuit?: Suit | null;
+  direction?: Direction;
+}
+
+// One entry of the game log. The deal plus the actions that follow are enough to rebuild any
+// GameState; reshuffles are recorded for the reader and follow from the seed.
+export type GameEvent =
+  | { type: 'deal'; seed: string; rules: RuleSet; seats: SeatConfig[]; dealer: number; layout?: TableLayout }
+  | { type: 'play'; seat: number; card: Card; suit?: Suit }
+  | { type: 'choose_suit'; seat: number; suit: Suit }
+  | { type: 'draw'; seat: number; count: number }
+  | { type: 'pass'; seat: number }
+  | { type: 'keep'; seat: number }
+  | { type: 'reshuffle'; deckSize: number };
+
+export interface RoundResult {
+  seed: string;
+  winner: number;
+  // Points each seat scored this round: the winner collects the penalty value of every other hand
+  points: number[];
+}
+
+// A match of several rounds, played until one seat reaches the target score
+export interface MatchState {
+  target: number;
+  // Each round is dealt from this seed plus its round number
+  seed: string;
+  seats: SeatConfig[];
+  scores: number[];
+  rounds: RoundResult[];
+  // Seat dealing the next round; the seat after the dealer leads
+  dealer: number;
 }
 
 export type GameStatus = 'menu' | 'waiting' | 'playing' | 'suit_selection' | 'game_over';
 
 export interface GameState {
   deck: Card[];
-  playerHand: Card[];
-  aiHand: Card[];
+  seats: Seat[];
   discardPile: Card[];
   currentSuit: Suit | null;
-  turn: 'player' | 'ai';
+  // Index into seats of the player whose turn it is
+  turn: number;
+  direction: Direction;
   status: GameStatus;
-  winner: 'player' | 'ai' | null;
-  lastAction: string;
+  winner: number | null;
+  // The game ended because nobody could play or draw; the winner came from the tiebreak
+  blocked: boolean;
+  lastAction: Message;
+  rules: RuleSet;
+  // Cards the player on turn must draw because of stacked draw-twos
+  pendingDraw: number;
+  // Cards the player on turn has drawn so far this turn
+  drawsThisTurn: number;
+  // Playable card just drawn; the player either plays it or keeps it and ends the turn
+  drawnCardId: string | null;
+  // Human-readable seed the deal was generated from
+  seed: string;
+  // PRNG position after the last shuffle, so later reshuffles stay reproducible
+  rngState: number;
+  stats: GameStats;
+  log: GameEvent[];
+}
+
+export interface PlayAction {
+  type: 'play';
+  cardId: string;
+  // Suit named for a wild card. Omit it to enter 'suit_selection' and follow up with a ChooseSuitAction.
+  suit?: Suit;
+}
+
+export interface DrawAction {
+  type: 'draw';
+}
+
+export interface ChooseSuitAction {
+  type: 'choose_suit';
+  suit: Suit;
+}
+
+export interface PassAction {
+  type: 'pass';
+}
+
+// Keep the playable card just drawn instead of playing it; ends the turn
+export interface KeepAction {
+  type: 'keep';
+}
+
+export type GameAction = PlayAction | DrawAction | ChooseSuitAction | PassAction | KeepAction;
+
+// A computer opponent. Strategies are pure so they run the same in the UI, a worker or a script.
+export interface AIPlayer {
+  difficulty: AIDifficulty;
+  chooseAction: (state: GameState) => GameAction;
+}
+
+// An AI estimate of how often a move wins for the player making it (0..1)
+export interface MoveEvaluation {
+  action: GameAction;
+  score: number;
+}
+
+// One of a player's decisions looked at after the game
+export interface MoveReview {
+  // Index into the game log of the event that recorded the move
+  index: number;
+  seat: number;
+  played: GameAction;
+  playedScore: number;
+  best: GameAction;
+  bestScore: number;
+  mistake: boolean;
+  note?: Message;
+}
+
+export type TableEventType = 'ai_play' | 'ai_draw' | 'wild' | 'win';
+
+// Something worth commenting on at the table, derived from a state transition
+export interface TableEvent {
+  type: TableEventType;
+  // Seat that caused the event
+  seat: number;
+  seatName: string;
+  card?: Card;
+  // Suit named with a wild card
+  suit?: Suit;
+  // Cards the acting seat holds afterwards
+  handSize: number;
+  // Position of the event within the game, so canned replies vary but stay reproducible
+  sequence: number;
+}
+
+export interface ChatMessage {
+  id: number;
+  speaker: string;
+  text: string;
+}
+
+// Produces a short in-character line for an AI seat. Returning null means "stay quiet".
+export interface TableTalkAdapter {
+  reply: (event: TableEvent, speaker: string) => Promise<string | null>;
 }
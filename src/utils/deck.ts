@@ -1,37 +1,50 @@
 
 import { Card, Rank, Suit } from '../types';
+import { RandomFn } from './random';
 
-const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
-const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
+export const SUITS: Suit[] = ['hearts', 'diamonds', 'clubs', 'spades'];
+export const RANKS: Rank[] = ['A', '2', '3', '4', '5', '6', '7', '8', '9', '10', 'J', 'Q', 'K'];
 
-export function createDeck(): Card[] {
+// `decks` full decks plus `jokers` jokers. Duplicate cards carry their deck number in the id so
+// every id stays unique; a single deck keeps the plain `rank-suit` ids.
+export function createDeck(random: RandomFn, decks = 1, jokers = 0): Card[] {
   const deck: Card[] = [];
-  for (const suit of SUITS) {
-    for (const rank of RANKS) {
-      deck.push({
-        id: `${rank}-${suit}-${Math.random().toString(36).substr(2, 9)}`,
-        suit,
-        rank,
-      });
+  for (let d = 1; d <= decks; d++) {
+    for (const suit of SUITS) {
+      for (const rank of RANKS) {
+        deck.push({
+          id: decks > 1 ? `${rank}-${suit}-${d}` : `${rank}-${suit}`,
+          suit,
+          rank,
+        });
+      }
     }
   }
-  return shuffle(deck);
+  for (let j = 1; j <= jokers; j++) {
+    deck.push({ id: `joker-${j}`, suit: null, rank: 'joker' });
+  }
+  return shuffle(deck, random);
+}
+
+export function isJoker(card: Card): boolean {
+  return card.rank === 'joker';
 }
 
-export function shuffle(deck: Card[]): Card[] {
+export function shuffle(deck: Card[], random: RandomFn): Card[] {
   const newDeck = [...deck];
   for (let i = newDeck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
+    const j = Math.floor(random() * (i + 1));
     [newDeck[i], newDeck[j]] = [newDeck[j], newDeck[i]];
   }
   return newDeck;
 }
 
-export function canPlay(card: Card, topCard: Card | null, currentSuit: Suit | null): boolean {
+export function canPlay(card: Card, topCard: Card | null, currentSuit: Suit | null, wildRank: Rank = '8'): boolean {
   if (!card) return false;
-  if (card.rank === '8') return true;
+  // Jokers are always wild
+  if (card.rank === wildRank || isJoker(card)) return true;
   if (!topCard) return true; // Should not happen in normal play
   
   const targetSuit = currentSuit || topCard.suit;
-  return card.suit === targetSuit || card.rank === topCard.rank;
+  return (card.suit !== null && card.suit === targetSuit) || card.rank === topCard.rank;
 }
@@ -0,0 +1,50 @@
+// Seedable PRNG so every deal and reshuffle can be replayed from a game seed.
+
+export type RandomFn = () => number;
+
+export interface Rng {
+  next: RandomFn;
+  // Internal position of the generator; store it to continue the same sequence later.
+  getState: () => number;
+}
+
+// mulberry32: tiny, fast and good enough for shuffling cards.
+export function createRng(state: number): Rng {
+  let a = state >>> 0;
+  return {
+    next: () => {
+      a = (a + 0x6d2b79f5) >>> 0;
+      let t = a;
+      t = Math.imul(t ^ (t >>> 15), t | 1);
+      t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+      return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    },
+    getState: () => a,
+  };
+}
+
+// FNV-1a hash, turns a human-readable seed into the generator's starting state.
+export function hashSeed(seed: string): number {
+  let h = 0x811c9dc5;
+  for (let i = 0; i < seed.length; i++) {
+    h ^= seed.charCodeAt(i);
+    h = Math.imul(h, 0x01000193);
+  }
+  return h >>> 0;
+}
+
+const SEED_ALPHABET = 'ABCDEFGHJKLMNPQRSTUVWXYZ23456789';
+
+export function randomSeed(): string {
+  let seed = '';
+  for (let i = 0; i < 8; i++) {
+    seed += SEED_ALPHABET[Math.floor(Math.random() * SEED_ALPHABET.length)];
+  }
+  return seed;
+}
+
+// Everyone playing on the same (local) day gets the same deal.
+export function dailySeed(date: Date = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `daily-${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+}